@@ -1,16 +1,57 @@
 """MRCClient: Async MySQL query execution with Redis caching."""
 
-import hashlib
 import json
 import random
-from collections.abc import Awaitable, Callable
+from collections.abc import Awaitable, Callable, Sequence
 from datetime import date, datetime
 from decimal import Decimal
-from typing import Any
+from typing import Any, Literal, TypedDict
 from urllib.parse import urlparse
 
 import aiomysql
 import redis.asyncio as redis
+from pymysql.constants import FIELD_TYPE
+
+from mysql_redis_cache.keys import (
+    KeyFormat,
+    build_cache_key,
+    get_index_key,
+    get_table_key,
+    hash_query,
+)
+from mysql_redis_cache.serialization import deserialize
+
+# Add the entry to an index set, extending the set's ttl to outlive the entry.
+# Same script as INDEX_SCRIPT in the TypeScript implementation.
+_INDEX_SCRIPT = """
+redis.call('sadd', KEYS[1], ARGV[1])
+if redis.call('ttl', KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call('expire', KEYS[1], ARGV[2])
+end
+return 1
+"""
+
+
+class NormalizeOptions(TypedDict, total=False):
+    """How values of specific MySQL column types are returned.
+
+    Same options and defaults as NormalizeOptions in the TypeScript implementation.
+    """
+
+    decimal: Literal['number', 'string', 'safe']
+    bigint: Literal['number', 'string', 'bigint', 'safe']
+    tinyint1: Literal['number', 'boolean']
+    json: Literal['parse', 'string']
+
+
+def _fits_number(value: Decimal) -> bool:
+    """Check whether a decimal survives conversion to float without losing digits."""
+    if not value.is_finite():
+        return False
+    int_part, _, frac = str(value).lstrip('-').partition('.')
+    frac = frac.rstrip('0')
+    digits = len(int_part.lstrip('0') + frac)
+    return digits <= 15 or (not frac and abs(value) <= 2**53 - 1)
 
 
 class MRCClient:
@@ -56,7 +97,10 @@ class MRCClient:
     def __init__(
         self,
         mysql_config: dict[str, Any] | str,
-        redis_config: dict[str, Any] | str | None = None
+        redis_config: dict[str, Any] | str | None = None,
+        key_format: KeyFormat = 'v2',
+        normalize: NormalizeOptions | None = None,
+        index_keys: bool = True
     ):
         """Initialize client with MySQL and optional Redis configuration.
         
@@ -68,11 +112,21 @@ class MRCClient:
             redis_config: Optional Redis configuration as dict or URL string.
                 Dict format: {'host': 'localhost', 'port': 6379, 'password': 'pass'}
                 URL format: 'redis://localhost:6379?decode_responses=True&health_check_interval=2'
+            key_format: Cache key format, 'v2' (default) or 'legacy' while older
+                clients still share the cache.
+            normalize: How DECIMAL, BIGINT, TINYINT(1) and JSON columns are returned,
+                e.g. {'decimal': 'safe', 'bigint': 'string', 'tinyint1': 'boolean'}.
+            index_keys: Add each entry to a set per named parameter
+                (``mrc:idx:{name}={value}``), which servers use to find the entries
+                to invalidate without scanning (default: True).
         """
         self.mysql_pool: aiomysql.Pool | None = None
         self.mysql_config = mysql_config
         self.redis_config = redis_config
         self.redis_client: redis.Redis | None = None
+        self.key_format: KeyFormat = key_format
+        self.normalize: NormalizeOptions = normalize or {}
+        self.index_keys = index_keys
 
     async def __aenter__(self) -> 'MRCClient':
         """Context manager entry - returns self for use in 'async with' statements."""
@@ -158,20 +212,70 @@ class MRCClient:
             raise RuntimeError("MySQL pool not initialized. Call an async method first.")
         return self.mysql_pool
 
-    def _normalize_row(self, row: dict[str, Any]) -> dict[str, Any]:
+    def _convert_column(self, value: Any, column: tuple[Any, ...]) -> Any:
+        """Convert a column value according to the normalize policy for its type.
+        
+        Mirrors normalizeRows in the TypeScript implementation.
+        
+        Args:
+            value: Non-null column value
+            column: Column description from cursor.description
+            
+        Returns:
+            Converted value, or the value unchanged if no policy applies
+        """
+        type_code, column_length = column[1], column[3]
+        policy = self.normalize
+
+        if type_code in (FIELD_TYPE.DECIMAL, FIELD_TYPE.NEWDECIMAL):
+            mode = policy.get('decimal', 'string')
+            if mode == 'number':
+                return float(value)
+            if mode == 'safe' and _fits_number(Decimal(value)):
+                return float(value)
+            return str(value)
+        if type_code == FIELD_TYPE.LONGLONG:
+            mode = policy.get('bigint', 'string')
+            if mode in ('number', 'bigint'):
+                return int(value)
+            # a JavaScript number would lose digits above 2**53
+            if mode == 'safe' and abs(int(value)) <= 2**53 - 1:
+                return int(value)
+            return str(value)
+        if type_code == FIELD_TYPE.TINY:
+            if policy.get('tinyint1') == 'boolean' and column_length == 1:
+                return bool(value)
+            return value
+        if type_code == FIELD_TYPE.JSON:
+            if policy.get('json', 'parse') == 'parse':
+                return json.loads(value) if isinstance(value, (str, bytes)) else value
+            return value if isinstance(value, str) else json.dumps(value)
+        return value
+
+    def _normalize_row(
+        self,
+        row: dict[str, Any],
+        description: Sequence[tuple[Any, ...]] | None = None
+    ) -> dict[str, Any]:
         """Normalize a database row for JSON serialization.
         
-        Converts Decimal to float and datetime objects to ISO strings
-        to ensure compatibility with TypeScript JSON.stringify().
+        Columns of DECIMAL, BIGINT, TINYINT(1) and JSON type are converted with the
+        normalize policy when the cursor description is given, other values by type:
+        Decimal to float and datetime objects to ISO strings to ensure compatibility
+        with TypeScript JSON.stringify().
         
         Args:
             row: Dictionary representing a database row
+            description: Optional cursor description with the column types
             
         Returns:
             Normalized dictionary ready for JSON serialization
         """
+        columns = {column[0]: column for column in description or []}
         normalized: dict[str, Any] = {}
         for key, value in row.items():
+            if value is not None and key in columns:
+                value = self._convert_column(value, columns[key])
             if isinstance(value, Decimal):
                 normalized[key] = float(value)
             elif isinstance(value, (datetime, date)):
@@ -206,8 +310,8 @@ class MRCClient:
             async with conn.cursor(aiomysql.DictCursor) as cursor:
                 await cursor.execute(query, params)
                 rows = await cursor.fetchall()
-                # Normalize rows for JSON serialization
-                return [self._normalize_row(row) for row in rows]
+                # Normalize rows for JSON serialization based on the column types
+                return [self._normalize_row(row, cursor.description) for row in rows]
 
     def get_key_from_query(
         self,
@@ -215,7 +319,10 @@ class MRCClient:
         params: list[Any] | None = None,
         param_names: list[str] = []
     ) -> str:
-        """Generate cache key using SHA1(query) + param_names=param_values.
+        """Generate cache key using SHA1(query, params) + param_names=param_values.
+        
+        All parameter values are part of the hash, the named ones are also
+        visible in the key for invalidation.
         
         Args:
             query: MySQL query string
@@ -223,13 +330,16 @@ class MRCClient:
             param_names: Names corresponding to parameters
             
         Returns:
-            Cache key string in format: "name1=value1_name2=value2_hash"
+            Cache key string in format: "mrc:v2:name1=value1:name2=value2:hash"
+            
+        Raises:
+            ValueError: If there are more parameter names than parameters
             
         Example::
         
             # Without parameters
             key = client.get_key_from_query('SELECT * FROM users')
-            # Returns: "a1b2c3d4e5f6..." (just SHA1 hash)
+            # Returns: "mrc:v2:a1b2c3d4e5f6..."
             
             # With parameters
             key = client.get_key_from_query(
@@ -237,17 +347,19 @@ class MRCClient:
                 [123, 456],
                 ['UserId', 'StoreId']
             )
-            # Returns: "UserId=123_StoreId=456_a1b2c3d4e5f6..."
+            # Returns: "mrc:v2:UserId=123:StoreId=456:a1b2c3d4e5f6..."
         """
-        hash_hex = hashlib.sha1(query.encode('utf-8')).hexdigest()
-        key = ''
-
-        if params and len(params) > 0:
-            for name, value in zip(param_names, params):
-                key += f"{name}={value}_"
+        count = len(params) if params else 0
+        if len(param_names or []) > count:
+            raise ValueError(
+                f"Got {len(param_names)} parameter names for {count} parameters"
+            )
 
-        key += hash_hex
-        return key
+        if self.key_format == 'legacy':
+            hash_hex = hash_query(query)
+        else:
+            hash_hex = hash_query(query, params)
+        return build_cache_key(hash_hex, params, param_names, self.key_format)
 
     async def read_from_cache(
         self,
@@ -275,7 +387,7 @@ class MRCClient:
         result = await self.redis_client.get(key)
 
         if result:
-            return json.loads(result)
+            return deserialize(result)
         return None
 
     async def write_to_cache(
@@ -284,7 +396,8 @@ class MRCClient:
         value: Any,
         params: list[Any] | None = None,
         param_names: list[str] = [],
-        ttl: int = 86400
+        ttl: int = 86400,
+        tables: list[str] | None = None
     ) -> None:
         """Write query result to cache with TTL jitter.
         
@@ -296,6 +409,7 @@ class MRCClient:
             params: Optional list of query parameters
             param_names: Names corresponding to parameters
             ttl: Time to live in seconds (default: 86400 = 24 hours)
+            tables: Tables the value depends on, for table invalidation
         """
         if not self.redis_client:
             await self._connect_redis()
@@ -313,6 +427,34 @@ class MRCClient:
         json_value = json.dumps(value, separators=(',', ':'), ensure_ascii=False)
 
         await self.redis_client.set(key, json_value, ex=ttl_with_jitter)
+        await self._add_to_indexes(key, params, param_names, ttl_with_jitter, tables)
+
+    async def _add_to_indexes(
+        self,
+        key: str,
+        params: list[Any] | None,
+        param_names: list[str],
+        ttl: int,
+        tables: list[str] | None = None
+    ) -> None:
+        """Add a cache entry to the index set of each named parameter and table.
+
+        Args:
+            key: Cache key of the entry
+            params: Optional list of query parameters
+            param_names: Names corresponding to parameters
+            ttl: Expiration time in seconds of the entry
+            tables: Tables the entry depends on
+        """
+        if not self.redis_client:
+            return
+        sets: list[str] = []
+        if self.index_keys and params:
+            sets += [get_index_key(name, value) for name, value in zip(param_names, params)]
+        # tables are not extracted from the query, unlike with trackTables in TypeScript
+        sets += list(dict.fromkeys(get_table_key(table) for table in tables or []))
+        for index in sets:
+            await self.redis_client.eval(_INDEX_SCRIPT, 1, index, key, ttl)
 
     async def with_cache(
         self,
@@ -320,7 +462,8 @@ class MRCClient:
         query: str,
         params: list[Any] | None = None,
         param_names: list[str] = [],
-        ttl: int = 86400
+        ttl: int = 86400,
+        tables: list[str] | None = None
     ) -> Any:
         """Execute arbitrary async function with caching.
         
@@ -332,6 +475,7 @@ class MRCClient:
             params: Optional list of parameters for cache key
             param_names: Names corresponding to parameters
             ttl: Time to live in seconds (default: 86400 = 24 hours)
+            tables: Tables the result depends on, for table invalidation
             
         Returns:
             Function result (from cache or fresh execution)
@@ -376,7 +520,7 @@ class MRCClient:
         result = await self.redis_client.get(key)
 
         if result:
-            return json.loads(result)
+            return deserialize(result)
 
         # Execute function
         r = await fn()
@@ -386,6 +530,7 @@ class MRCClient:
         ttl_with_jitter = ttl + dt
         json_value = json.dumps(r, separators=(',', ':'), ensure_ascii=False)
         await self.redis_client.set(key, json_value, ex=ttl_with_jitter)
+        await self._add_to_indexes(key, params, param_names, ttl_with_jitter, tables)
 
         return r
 
@@ -394,7 +539,8 @@ class MRCClient:
         query: str,
         params: list[Any] | None = None,
         param_names: list[str] = [],
-        ttl: int = 86400
+        ttl: int = 86400,
+        tables: list[str] | None = None
     ) -> Any:
         """Execute MySQL query with caching.
         
@@ -405,6 +551,7 @@ class MRCClient:
             params: Optional list of query parameters
             param_names: Names corresponding to parameters
             ttl: Time to live in seconds (default: 86400 = 24 hours)
+            tables: Tables the query reads, for table invalidation
             
         Returns:
             Query results (from cache or fresh execution)
@@ -436,4 +583,4 @@ class MRCClient:
         async def fn() -> Any:
             return await self.query_to_promise(query, params)
 
-        return await self.with_cache(fn, query, params, param_names, ttl)
+        return await self.with_cache(fn, query, params, param_names, ttl, tables)
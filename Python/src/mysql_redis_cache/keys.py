@@ -0,0 +1,286 @@
+"""Cache key format shared with the TypeScript implementation.
+
+Two formats are supported:
+
+- ``v2``: ``mrc:v2:{name}={value}:...:{sha1}`` with names and values encoded
+  like JavaScript's ``encodeURIComponent``; the hash covers the query and every
+  parameter value.
+- ``legacy``: ``{name}={value}_..._{sha1}`` as written by version 0.2 and earlier;
+  the hash covers the query only.
+"""
+
+import base64
+import hashlib
+import json
+import math
+import re
+from dataclasses import dataclass
+from datetime import UTC, date, datetime
+from decimal import Decimal
+from typing import Any, Literal
+from urllib.parse import quote, unquote
+
+KeyFormat = Literal['v2', 'legacy']
+
+INTERNAL_PREFIX = 'mrc:'
+KEY_PREFIX = INTERNAL_PREFIX + 'v2:'
+INVALIDATION_CHANNEL = INTERNAL_PREFIX + 'invalidations'
+INDEX_PREFIX = INTERNAL_PREFIX + 'idx:'
+TABLE_PREFIX = INTERNAL_PREFIX + 'tbl:'
+
+_HASH_PATTERN = re.compile(r'^[0-9a-f]{40}$')
+
+# Characters left unescaped by JavaScript's encodeURIComponent
+_SAFE_CHARS = "-_.!~*'()"
+
+
+@dataclass
+class ParsedCacheKey:
+    """A cache key split into its parts."""
+
+    format: KeyFormat
+    params: list[tuple[str, str]]
+    hash: str
+
+
+def _encode(value: str) -> str:
+    return quote(value, safe=_SAFE_CHARS)
+
+
+def format_number(value: float) -> str:
+    """Format a number like TypeScript's formatNumber.
+
+    Integers keep all their digits; other numbers get the shortest digits that round
+    trip, in exponent form only below 1e-6 like JavaScript's ``String(number)``
+    (``1e-7``, where Python writes ``1e-07``).
+
+    Args:
+        value: A float
+
+    Returns:
+        The formatted number
+    """
+    if math.isnan(value):
+        return 'NaN'
+    if math.isinf(value):
+        return 'Infinity' if value > 0 else '-Infinity'
+    if value.is_integer():
+        return str(int(value))
+
+    # Significant digits and the position of the decimal point after the first n of
+    # them, as in the ECMAScript Number::toString algorithm
+    mantissa, _, exponent = repr(abs(value)).partition('e')
+    int_part, _, frac = mantissa.partition('.')
+    all_digits = int_part + frac
+    digits = all_digits.lstrip('0')
+    n = len(int_part) + int(exponent or 0) - (len(all_digits) - len(digits))
+    digits = digits.rstrip('0')
+    k = len(digits)
+
+    sign = '-' if value < 0 else ''
+    if 0 < n <= 21:
+        return sign + digits[:n] + '.' + digits[n:]
+    if -6 < n <= 0:
+        return sign + '0.' + '0' * -n + digits
+    e = n - 1
+    fraction = '.' + digits[1:] if k > 1 else ''
+    return f"{sign}{digits[0]}{fraction}e{'+' if e >= 0 else '-'}{abs(e)}"
+
+
+def stringify_param_value(value: Any) -> str:
+    """Convert a parameter value to the string stored in cache keys.
+
+    Matches TypeScript's ``String(value)`` for null, booleans and strings,
+    ``formatNumber`` for numbers and ``Date.toISOString()`` for datetimes (naive
+    datetimes are taken as UTC).
+
+    Args:
+        value: A query parameter value
+
+    Returns:
+        String representation of the value
+    """
+    if value is None:
+        return 'null'
+    if isinstance(value, bool):
+        return 'true' if value else 'false'
+    if isinstance(value, float):
+        return format_number(value)
+    if isinstance(value, datetime):
+        if value.tzinfo is not None:
+            value = value.astimezone(UTC).replace(tzinfo=None)
+        return value.isoformat(timespec='milliseconds') + 'Z'
+    if isinstance(value, date):
+        return value.isoformat() + 'T00:00:00.000Z'
+    return str(value)
+
+
+def canonicalize_params(value: Any) -> str:
+    """Encode parameter values as canonical JSON, matching TypeScript's canonicalizeParams.
+
+    Object keys are sorted; datetimes, bytes and integral floats have a fixed
+    representation so both implementations hash the same values identically.
+
+    Args:
+        value: A parameter value or list of values
+
+    Returns:
+        Canonical JSON encoding
+    """
+    if value is None:
+        return 'null'
+    if isinstance(value, bool):
+        return 'true' if value else 'false'
+    if isinstance(value, (datetime, date)):
+        return '{"$date":' + json.dumps(stringify_param_value(value)) + '}'
+    if isinstance(value, (bytes, bytearray, memoryview)):
+        return '{"$bytes":"' + base64.b64encode(bytes(value)).decode('ascii') + '"}'
+    if isinstance(value, (list, tuple)):
+        return '[' + ','.join(canonicalize_params(v) for v in value) + ']'
+    if isinstance(value, dict):
+        fields = (
+            json.dumps(str(k), ensure_ascii=False) + ':' + canonicalize_params(value[k])
+            for k in sorted(value, key=str)
+        )
+        return '{' + ','.join(fields) + '}'
+    if isinstance(value, int):
+        return str(value)
+    if isinstance(value, (float, Decimal)):
+        number = float(value)
+        return format_number(number) if math.isfinite(number) else 'null'
+    return json.dumps(str(value), ensure_ascii=False)
+
+
+def hash_query(query: str, params: list[Any] | None = None) -> str:
+    """Return the SHA1 hash identifying a query and all its parameter values.
+
+    Args:
+        query: MySQL query string
+        params: Optional list of query parameters
+
+    Returns:
+        SHA1 hex digest
+    """
+    data = query
+    if params:
+        data += '\0' + canonicalize_params(params)
+    return hashlib.sha1(data.encode('utf-8')).hexdigest()
+
+
+def build_cache_key(
+    hash_hex: str,
+    params: list[Any] | None = None,
+    param_names: list[str] | None = None,
+    key_format: KeyFormat = 'v2'
+) -> str:
+    """Build a cache key from the query hash and the named parameters.
+
+    Args:
+        hash_hex: SHA1 hash identifying the query
+        params: Optional list of query parameters
+        param_names: Names corresponding to parameters
+        key_format: Key format to produce (default: 'v2')
+
+    Returns:
+        Cache key string
+    """
+    named = list(zip(param_names or [], params)) if params else []
+
+    if key_format == 'legacy':
+        return ''.join(f"{name}={value}_" for name, value in named) + hash_hex
+
+    key = KEY_PREFIX
+    for name, value in named:
+        key += f"{_encode(name)}={_encode(stringify_param_value(value))}:"
+    return key + hash_hex
+
+
+def get_index_key(name: str, value: Any) -> str:
+    """Return the key of the set listing the cache entries of a parameter value.
+
+    Args:
+        name: Parameter name
+        value: Parameter value
+
+    Returns:
+        Index set key, e.g. ``mrc:idx:StoreId=6``
+    """
+    return f"{INDEX_PREFIX}{_encode(name)}={_encode(stringify_param_value(value))}"
+
+
+def get_table_key(table: str) -> str:
+    """Return the key of the set listing the cache entries that depend on a table.
+
+    Args:
+        table: Table name, compared in lower case
+
+    Returns:
+        Set key such as ``mrc:tbl:orders``
+    """
+    return f"{TABLE_PREFIX}{_encode(table.lower())}"
+
+
+def parse_cache_key(key: str) -> ParsedCacheKey | None:
+    """Parse a cache key in either format.
+
+    Legacy keys are ambiguous when values contain ``_``: segments without ``=``
+    are appended to the previous value.
+
+    Args:
+        key: A Redis key
+
+    Returns:
+        The parsed key, or None if the key is not a cache entry
+    """
+    params: list[tuple[str, str]] = []
+
+    if key.startswith(KEY_PREFIX):
+        parts = key[len(KEY_PREFIX):].split(':')
+        hash_hex = parts.pop()
+        if not _HASH_PATTERN.match(hash_hex):
+            return None
+        for part in parts:
+            pieces = part.split('=')
+            if len(pieces) != 2:
+                return None
+            params.append((unquote(pieces[0]), unquote(pieces[1])))
+        return ParsedCacheKey('v2', params, hash_hex)
+
+    if key.startswith(INTERNAL_PREFIX):
+        return None
+
+    parts = key.split('_')
+    hash_hex = parts.pop()
+    if not _HASH_PATTERN.match(hash_hex):
+        return None
+    for part in parts:
+        name, sep, value = part.partition('=')
+        if not sep:
+            if not params:
+                return None
+            last_name, last_value = params[-1]
+            params[-1] = (last_name, f"{last_value}_{part}")
+        else:
+            params.append((name, value))
+    return ParsedCacheKey('legacy', params, hash_hex)
+
+
+def matches_cache_key(
+    parsed: ParsedCacheKey,
+    key_names: list[str],
+    key_values: list[Any]
+) -> bool:
+    """Check whether a parsed key has every given parameter with exactly the given value.
+
+    Args:
+        parsed: A parsed cache key
+        key_names: Parameter names to match
+        key_values: Parameter values to match
+
+    Returns:
+        True if all parameters match
+    """
+    return all(
+        (name, stringify_param_value(value)) in parsed.params
+        for name, value in zip(key_names, key_values)
+    )
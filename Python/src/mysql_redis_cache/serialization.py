@@ -0,0 +1,57 @@
+"""Decoding of cached values, including typed entries written by TypeScript.
+
+Plain entries are the JSON encoding of the value. Typed entries wrap the value in
+an envelope, ``{"$mrc":1,"v":...}``, where values JSON cannot represent are tagged:
+
+- ``{"$mrc":"date","v":"2024-01-01T00:00:00.000Z"}`` decodes to ``datetime``
+- ``{"$mrc":"buffer","v":"<base64>"}`` decodes to ``bytes``
+- ``{"$mrc":"bigint","v":"9007199254740993"}`` decodes to ``int``
+- ``{"$mrc":"object","v":{...}}`` escapes objects that have a ``$mrc`` key themselves
+"""
+
+import base64
+import json
+from datetime import datetime
+from typing import Any
+
+TAG = '$mrc'
+ENVELOPE_VERSION = 1
+ENVELOPE_START = f'{{"{TAG}":{ENVELOPE_VERSION},'
+
+
+def _decode_fields(value: dict[str, Any]) -> dict[str, Any]:
+    return {key: _decode_typed(field) for key, field in value.items()}
+
+
+def _decode_typed(value: Any) -> Any:
+    if isinstance(value, list):
+        return [_decode_typed(item) for item in value]
+    if not isinstance(value, dict):
+        return value
+
+    match value.get(TAG):
+        case 'date':
+            return datetime.fromisoformat(value['v'])
+        case 'buffer':
+            return base64.b64decode(value['v'])
+        case 'bigint':
+            return int(value['v'])
+        case 'object':
+            return _decode_fields(value['v'])
+    return _decode_fields(value)
+
+
+def deserialize(data: str | bytes) -> Any:
+    """Deserialize a cached value, restoring the types of typed entries.
+
+    Args:
+        data: Value stored in Redis
+
+    Returns:
+        Decoded value
+    """
+    text = data.decode('utf-8') if isinstance(data, bytes) else data
+    parsed = json.loads(text)
+    if text.startswith(ENVELOPE_START):
+        return _decode_typed(parsed['v'])
+    return parsed
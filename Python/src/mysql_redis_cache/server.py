@@ -1,9 +1,18 @@
 """MRCServer: Manage cache invalidation for MySQL-Redis-Cache."""
 
+import json
+import time
 from typing import Any
 
 import redis.asyncio as redis
 
+from mysql_redis_cache.keys import (
+    INVALIDATION_CHANNEL,
+    matches_cache_key,
+    parse_cache_key,
+    stringify_param_value,
+)
+
 
 class MRCServer:
     """Manage cache invalidation with Redis.
@@ -36,15 +45,25 @@ class MRCServer:
                 # Deletes entries with BOTH UserId=123 AND StoreId=456
     """
 
-    def __init__(self, redis_config: dict[str, Any]):
+    def __init__(
+        self,
+        redis_config: dict[str, Any],
+        legacy_keys: bool = True,
+        publish_invalidations: bool = True
+    ):
         """Initialize server with Redis configuration.
         
         Args:
             redis_config: Redis configuration dict.
                 Format: {'host': 'localhost', 'port': 6379, 'password': 'pass'}
+            legacy_keys: Also match entries in the legacy key format (default: True)
+            publish_invalidations: Publish every invalidation on the
+                ``mrc:invalidations`` channel (default: True)
         """
         self.redis_config = redis_config
         self.redis_client: redis.Redis | None = None
+        self.legacy_keys = legacy_keys
+        self.publish_invalidations = publish_invalidations
 
     async def __aenter__(self) -> 'MRCServer':
         """Context manager entry - returns self for use in 'async with' statements."""
@@ -75,8 +94,8 @@ class MRCServer:
     ) -> int:
         """Delete all cached queries matching the given key patterns.
         
-        Uses Redis SCAN to iterate all keys safely, checks that keys contain
-        ALL specified parameter matches (AND logic).
+        Uses Redis SCAN to iterate all keys safely, checks that keys have
+        ALL specified parameters with exactly the given values (AND logic).
         
         Args:
             key_names: List of parameter names to match
@@ -87,10 +106,10 @@ class MRCServer:
             
         Example:
             await server.drop_outdated_cache(['StoreId'], [6])
-            # Deletes all cache entries containing 'StoreId=6'
+            # Deletes all cache entries with StoreId=6 (but not StoreId=60)
             
             await server.drop_outdated_cache(['StoreId', 'UserId'], [6, 123])
-            # Deletes entries containing BOTH 'StoreId=6' AND 'UserId=123'
+            # Deletes entries with BOTH StoreId=6 AND UserId=123
         """
         if not self.redis_client:
             await self._connect_redis()
@@ -98,11 +117,6 @@ class MRCServer:
         if not self.redis_client:
             return 0
 
-        # Build list of exact parameter matches (e.g., ["MinAge=20", "Active=1"])
-        param_matches = []
-        for name, value in zip(key_names, key_values):
-            param_matches.append(f"{name}={value}")
-
         # Use SCAN to iterate all keys safely (production-safe, unlike KEYS)
         deleted_count = 0
         cursor = 0
@@ -115,8 +129,15 @@ class MRCServer:
                 # Decode bytes to string if needed
                 key_str = key.decode('utf-8') if isinstance(key, bytes) else key
 
-                # Check if key contains ALL parameter matches (AND logic, not OR)
-                if all(param in key_str for param in param_matches):
+                # Skip keys that are not cache entries
+                parsed = parse_cache_key(key_str)
+                if parsed is None:
+                    continue
+                if parsed.format == 'legacy' and not self.legacy_keys:
+                    continue
+
+                # Check if key has ALL parameter matches (AND logic, not OR)
+                if matches_cache_key(parsed, key_names, key_values):
                     await self.redis_client.delete(key)
                     deleted_count += 1
 
@@ -124,4 +145,18 @@ class MRCServer:
             if cursor == 0:
                 break
 
+        if self.publish_invalidations:
+            # Same message as the TypeScript server, so clients of both receive it
+            event = {
+                'params': {
+                    name: stringify_param_value(value)
+                    for name, value in zip(key_names, key_values)
+                },
+                'deleted': deleted_count,
+                'timestamp': int(time.time() * 1000),
+            }
+            await self.redis_client.publish(
+                INVALIDATION_CHANNEL, json.dumps(event, separators=(',', ':'))
+            )
+
         return deleted_count
@@ -22,9 +22,10 @@ class TestCacheKeyGeneration:
 
         key = client.get_key_from_query(query)
 
-        # Should be just the SHA1 hash
-        assert len(key) == 40  # SHA1 hex is 40 characters
-        assert key.isalnum()  # Only hex characters
+        # Should be the version prefix and the SHA1 hash
+        assert key.startswith("mrc:v2:")
+        assert len(key) == len("mrc:v2:") + 40  # SHA1 hex is 40 characters
+        assert key[len("mrc:v2:"):].isalnum()  # Only hex characters
 
     def test_key_with_params(self):
         """Test cache key generation with parameters."""
@@ -35,10 +36,10 @@ class TestCacheKeyGeneration:
 
         key = client.get_key_from_query(query, params, param_names)
 
-        # Should start with param=value_
-        assert key.startswith("UserId=123_")
+        # Should start with prefix and param=value:
+        assert key.startswith("mrc:v2:UserId=123:")
         # Should end with 40-character hash
-        assert len(key) == len("UserId=123_") + 40
+        assert len(key) == len("mrc:v2:UserId=123:") + 40
 
     def test_key_with_multiple_params(self):
         """Test cache key generation with multiple parameters."""
@@ -50,10 +51,29 @@ class TestCacheKeyGeneration:
         key = client.get_key_from_query(query, params, param_names)
 
         # Should contain both params
-        assert "StoreId=6_" in key
-        assert "UserId=123_" in key
+        assert ":StoreId=6:" in key
+        assert ":UserId=123:" in key
         # Should end with hash
-        assert len(key.split('_')[-1]) == 40
+        assert len(key.split(':')[-1]) == 40
+
+    def test_key_escapes_separators(self):
+        """Test that separators in values are encoded like encodeURIComponent."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'})
+        query = "SELECT * FROM users WHERE name = ?"
+
+        key = client.get_key_from_query(query, ['a_b=c:d'], ['Name'])
+
+        assert key.startswith("mrc:v2:Name=a_b%3Dc%3Ad:")
+
+    def test_legacy_key_format(self):
+        """Test that the legacy key format can still be generated."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'}, key_format='legacy')
+        query = "SELECT * FROM users WHERE id = ?"
+
+        key = client.get_key_from_query(query, [123], ['UserId'])
+
+        assert key.startswith("UserId=123_")
+        assert len(key) == len("UserId=123_") + 40
 
     def test_key_deterministic(self):
         """Test that same query generates same key."""
@@ -122,6 +142,60 @@ class TestDataNormalization:
 
         assert normalized['optional_field'] is None
 
+    def test_normalize_with_column_types(self):
+        """Test column types drive conversion like TypeScript's normalizeRows."""
+        # (name, type_code, display_size, internal_size, precision, scale, null_ok)
+        description = [
+            ('zip', 253, None, 40, 40, 0, True),
+            ('price', 246, None, 22, 22, 2, True),
+            ('big', 8, None, 20, 20, 0, True),
+            ('flag', 1, None, 1, 1, 0, True),
+            ('doc', 245, None, 4294967295, 4294967295, 0, True),
+        ]
+        row = {
+            'zip': '00123',
+            'price': Decimal('12345678901234567.89'),
+            'big': 9007199254740993,
+            'flag': 1,
+            'doc': '{"a":1}',
+        }
+
+        default_client = MRCClient({'host': 'localhost', 'db': 'test'})
+        normalized = default_client._normalize_row(row, description)
+        # every digit is kept, whatever the value
+        assert normalized == {
+            'zip': '00123',
+            'price': '12345678901234567.89',
+            'big': '9007199254740993',
+            'flag': 1,
+            'doc': {'a': 1},
+        }
+
+        lossy_client = MRCClient(
+            {'host': 'localhost', 'db': 'test'},
+            normalize={'decimal': 'number', 'bigint': 'number'},
+        )
+        normalized = lossy_client._normalize_row(row, description)
+        assert normalized['price'] == 12345678901234567.89
+        assert normalized['big'] == 9007199254740993
+
+        strict_client = MRCClient(
+            {'host': 'localhost', 'db': 'test'},
+            normalize={'decimal': 'safe', 'bigint': 'string', 'tinyint1': 'boolean',
+                       'json': 'string'},
+        )
+        normalized = strict_client._normalize_row(row, description)
+        assert normalized == {
+            'zip': '00123',
+            'price': '12345678901234567.89',
+            'big': '9007199254740993',
+            'flag': True,
+            'doc': '{"a":1}',
+        }
+        # safe values that fit a number become numbers
+        small = strict_client._normalize_row({**row, 'price': Decimal('12.50')}, description)
+        assert small['price'] == 12.5
+
 
 @pytest.mark.asyncio
 class TestCacheOperations:
@@ -152,7 +226,7 @@ class TestCacheOperations:
         assert mock_redis.set.called
         call_args = mock_redis.set.call_args
         key = call_args[0][0]
-        assert key.startswith("UserId=123_")
+        assert key.startswith("mrc:v2:UserId=123:")
 
         # Verify JSON serialization is compact (no spaces)
         json_value = call_args[0][1]
@@ -162,6 +236,43 @@ class TestCacheOperations:
         ttl = call_args[1]['ex']
         assert 3240 <= ttl <= 3960
 
+    async def test_write_adds_entry_to_index_sets(self):
+        """Test that stored entries are listed in the index set of each named parameter."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'}, {'host': 'localhost'})
+        mock_redis = AsyncMock()
+        client.redis_client = mock_redis
+
+        query = "SELECT * FROM orders WHERE store_id = ? AND user_id = ?"
+        await client.write_to_cache(query, [], [6, 123], ['StoreId'], ttl=3600)
+
+        key = mock_redis.set.call_args.args[0]
+        ttl = mock_redis.set.call_args.kwargs['ex']
+        # One set per named parameter, the unnamed one is not indexed
+        assert mock_redis.eval.call_count == 1
+        _, numkeys, index, member, index_ttl = mock_redis.eval.call_args.args
+        assert (numkeys, index, member, index_ttl) == (1, 'mrc:idx:StoreId=6', key, ttl)
+
+        # Indexing can be turned off
+        client.index_keys = False
+        mock_redis.eval.reset_mock()
+        await client.write_to_cache(query, [], [6, 123], ['StoreId'], ttl=3600)
+        assert not mock_redis.eval.called
+
+    async def test_write_records_tables(self):
+        """Test that the tables passed to a call are recorded for table invalidation."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'}, {'host': 'localhost'})
+        mock_redis = AsyncMock()
+        client.redis_client = mock_redis
+
+        query = "SELECT * FROM orders JOIN stores USING (store_id)"
+        await client.write_to_cache(query, [], ttl=3600, tables=['Orders', 'stores', 'orders'])
+
+        key = mock_redis.set.call_args.args[0]
+        indexes = [call.args[2] for call in mock_redis.eval.call_args_list]
+        members = {call.args[3] for call in mock_redis.eval.call_args_list}
+        assert indexes == ['mrc:tbl:orders', 'mrc:tbl:stores']
+        assert members == {key}
+
     async def test_read_from_cache_hit(self):
         """Test cache hit returns cached data."""
         redis_config = {'host': 'localhost', 'port': 6379, 'decode_responses': True}
@@ -267,6 +378,9 @@ class TestCacheOperations:
         assert result == {'result': 42}
 
 
+HASH = 'a' * 40
+
+
 @pytest.mark.asyncio
 class TestMRCServer:
     """Test MRCServer cache invalidation."""
@@ -280,18 +394,29 @@ class TestMRCServer:
         mock_redis = AsyncMock()
         # Simulate SCAN returning keys in two batches
         mock_redis.scan = AsyncMock(side_effect=[
-            (1, [b'StoreId=6_abc123', b'UserId=123_def456', b'StoreId=6_ghi789']),
-            (0, [b'UserId=999_jkl012'])  # cursor 0 means done
+            (1, [
+                f'mrc:v2:StoreId=6:{HASH}'.encode(),
+                f'mrc:v2:UserId=123:{HASH}'.encode(),
+                f'StoreId=6_{HASH}'.encode(),
+            ]),
+            (0, [f'mrc:v2:StoreId=60:{HASH}'.encode()])  # cursor 0 means done
         ])
         mock_redis.delete = AsyncMock()
         server.redis_client = mock_redis
 
         count = await server.drop_outdated_cache(['StoreId'], [6])
 
-        # Should delete 2 keys matching StoreId=6
+        # Should delete 2 keys matching StoreId=6 exactly, in either format
         assert count == 2
         assert mock_redis.delete.call_count == 2
 
+        # The invalidation is published for subscribed clients
+        channel, message = mock_redis.publish.call_args.args
+        assert channel == 'mrc:invalidations'
+        event = json.loads(message)
+        assert event['params'] == {'StoreId': '6'}
+        assert event['deleted'] == 2
+
     async def test_drop_outdated_cache_multiple_keys(self):
         """Test dropping cache entries matching multiple key patterns."""
         redis_config = {'host': 'localhost', 'port': 6379}
@@ -300,8 +425,12 @@ class TestMRCServer:
         # Mock Redis client
         mock_redis = AsyncMock()
         mock_redis.scan = AsyncMock(side_effect=[
-            (1, [b'StoreId=6_UserId=123_abc123', b'StoreId=6_UserId=456_def456', b'StoreId=7_UserId=123_ghi789']),
-            (0, [b'UserId=999_jkl012'])
+            (1, [
+                f'mrc:v2:StoreId=6:UserId=123:{HASH}'.encode(),
+                f'mrc:v2:StoreId=6:UserId=456:{HASH}'.encode(),
+                f'mrc:v2:StoreId=7:UserId=123:{HASH}'.encode(),
+            ]),
+            (0, [f'mrc:v2:UserId=999:{HASH}'.encode()])
         ])
         mock_redis.delete = AsyncMock()
         server.redis_client = mock_redis
@@ -320,7 +449,7 @@ class TestMRCServer:
         # Mock Redis client
         mock_redis = AsyncMock()
         mock_redis.scan = AsyncMock(side_effect=[
-            (0, [b'UserId=999_abc123', b'UserId=888_def456'])
+            (0, [f'mrc:v2:UserId=999:{HASH}'.encode(), f'UserId=888_{HASH}'.encode()])
         ])
         mock_redis.delete = AsyncMock()
         server.redis_client = mock_redis
@@ -22,6 +22,7 @@ import pytest
 import redis.asyncio as redis
 
 from mysql_redis_cache import MRCClient, MRCServer
+from mysql_redis_cache.keys import hash_query
 
 pytestmark = pytest.mark.interop
 
@@ -126,8 +127,8 @@ class TestE2EInteroperability:
         cache_key = mysql_client.get_key_from_query(query, params, param_names)
         
         # Verify cache key format
-        query_hash = hashlib.sha1(query.encode('utf-8')).hexdigest()
-        expected_key = f"UserId=1_{query_hash}"
+        query_hash = hash_query(query, params)
+        expected_key = f"mrc:v2:UserId=1:{query_hash}"
         assert cache_key == expected_key
 
         # Inspect cached data in Redis
@@ -170,25 +171,25 @@ class TestE2EInteroperability:
                 "SELECT * FROM users",
                 None,
                 None,
-                lambda q: hashlib.sha1(q.encode('utf-8')).hexdigest()
+                lambda q: f"mrc:v2:{hashlib.sha1(q.encode('utf-8')).hexdigest()}"
             ),
             (
                 "SELECT * FROM users WHERE id = %s",
                 [123],
                 ["UserId"],
-                lambda q: f"UserId=123_{hashlib.sha1(q.encode('utf-8')).hexdigest()}"
+                lambda q: f"mrc:v2:UserId=123:{hash_query(q, [123])}"
             ),
             (
                 "SELECT * FROM orders WHERE store_id = %s AND user_id = %s",
                 [6, 123],
                 ["StoreId", "UserId"],
-                lambda q: f"StoreId=6_UserId=123_{hashlib.sha1(q.encode('utf-8')).hexdigest()}"
+                lambda q: f"mrc:v2:StoreId=6:UserId=123:{hash_query(q, [6, 123])}"
             ),
             (
                 "SELECT * FROM users WHERE email = %s",
                 ["test@example.com"],
                 ["Email"],
-                lambda q: f"Email=test@example.com_{hashlib.sha1(q.encode('utf-8')).hexdigest()}"
+                lambda q: f"mrc:v2:Email=test%40example.com:{hash_query(q, ['test@example.com'])}"
             ),
         ]
 
@@ -6,12 +6,13 @@ can be read by the other. This ensures both implementations can share the same R
 
 import hashlib
 import json
-from datetime import date, datetime
+from datetime import UTC, date, datetime
 from decimal import Decimal
 
 import pytest
 
 from mysql_redis_cache import MRCClient
+from mysql_redis_cache.serialization import deserialize
 
 pytestmark = pytest.mark.unit
 
@@ -31,11 +32,11 @@ class TestCacheKeyCompatibility:
         # Generate key
         python_key = client.get_key_from_query(query)
 
-        # Expected TypeScript key (SHA1 of query)
+        # Expected TypeScript key (prefix + SHA1 of query)
         expected_hash = hashlib.sha1(query.encode('utf-8')).hexdigest()
 
-        assert python_key == expected_hash
-        assert len(python_key) == 40
+        assert python_key == f"mrc:v2:{expected_hash}"
+        assert len(python_key) == len("mrc:v2:") + 40
 
     def test_key_generation_matches_typescript_with_params(self):
         """Verify Python generates same cache key as TypeScript with parameters."""
@@ -47,9 +48,10 @@ class TestCacheKeyCompatibility:
         # Generate key
         python_key = client.get_key_from_query(query, params, param_names)
 
-        # Expected format: "UserId=123_{hash}"
-        query_hash = hashlib.sha1(query.encode('utf-8')).hexdigest()
-        expected_key = f"UserId=123_{query_hash}"
+        # Expected format: "mrc:v2:UserId=123:{hash}"
+        # TypeScript: hashQuery(query, [123])
+        query_hash = "cb0e25de4bc59abeab52c5730566018c6b75b168"
+        expected_key = f"mrc:v2:UserId=123:{query_hash}"
 
         assert python_key == expected_key
 
@@ -62,9 +64,10 @@ class TestCacheKeyCompatibility:
 
         python_key = client.get_key_from_query(query, params, param_names)
 
-        # Expected format: "StoreId=6_UserId=123_{hash}"
-        query_hash = hashlib.sha1(query.encode('utf-8')).hexdigest()
-        expected_key = f"StoreId=6_UserId=123_{query_hash}"
+        # Expected format: "mrc:v2:StoreId=6:UserId=123:{hash}"
+        # TypeScript: hashQuery(query, [6, 123])
+        query_hash = "d2b3c427723a687af2b76e90acace4f47459045e"
+        expected_key = f"mrc:v2:StoreId=6:UserId=123:{query_hash}"
 
         assert python_key == expected_key
 
@@ -77,11 +80,68 @@ class TestCacheKeyCompatibility:
 
         python_key = client.get_key_from_query(query, params, param_names)
 
-        query_hash = hashlib.sha1(query.encode('utf-8')).hexdigest()
-        expected_key = f"Email=alice@example.com_{query_hash}"
+        # TypeScript: hashQuery(query, ['alice@example.com'])
+        query_hash = "50bfa37da8b525378e2cec53fa9004cf2a76a5af"
+        expected_key = f"mrc:v2:Email=alice%40example.com:{query_hash}"
 
         assert python_key == expected_key
 
+    def test_key_generation_escapes_like_encode_uri_component(self):
+        """Verify separators and non-ASCII values are encoded like encodeURIComponent."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'})
+        query = "SELECT * FROM users WHERE name = ?"
+
+        python_key = client.get_key_from_query(
+            query, ['a_b=c:d', None, True, 'é'], ['Name', 'Store Id', 'Active', 'City']
+        )
+
+        # TypeScript: buildCacheKey(hashQuery(query, params), params, [...])
+        query_hash = "595d229f40c7767908f6a015afe2649431adc8b7"
+        expected_key = (
+            f"mrc:v2:Name=a_b%3Dc%3Ad:Store%20Id=null:Active=true:City=%C3%A9:{query_hash}"
+        )
+
+        assert python_key == expected_key
+
+    def test_key_generation_hashes_unnamed_params(self):
+        """Verify parameters without names still produce distinct keys."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'})
+        query = "SELECT * FROM users WHERE id = ?"
+
+        assert client.get_key_from_query(query, [1]) != client.get_key_from_query(query, [2])
+
+    def test_key_generation_canonical_param_encoding(self):
+        """Verify dates, bytes and null hash like TypeScript's canonicalizeParams."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'})
+
+        python_key = client.get_key_from_query(
+            'SELECT ?', [1, 'a', None, True, datetime(2024, 1, 1), b'ab']
+        )
+
+        # TypeScript: [1, 'a', null, true, new Date(Date.UTC(2024, 0, 1)), Buffer.from('ab')]
+        assert python_key == "mrc:v2:749d28b87df0aae39601d56737aecc7fc28b94fb"
+
+    def test_key_generation_number_formatting(self):
+        """Verify numbers in exponent form and large integers format like TypeScript."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'})
+
+        python_key = client.get_key_from_query(
+            'SELECT ?', [1e21, 1e-7, 2**60, 1.5e-10, -0.5], ['Big', 'Small', 'Int']
+        )
+
+        # TypeScript: [1e21, 1e-7, 2 ** 60, 1.5e-10, -0.5]
+        assert python_key == (
+            'mrc:v2:Big=1000000000000000000000:Small=1e-7:Int=1152921504606846976:'
+            '3308bc17286fcd1394cca668873e4613c57edd44'
+        )
+
+    def test_key_generation_rejects_extra_param_names(self):
+        """Verify more parameter names than parameters is an error."""
+        client = MRCClient({'host': 'localhost', 'db': 'test'})
+
+        with pytest.raises(ValueError):
+            client.get_key_from_query('SELECT ?', [1], ['A', 'B'])
+
 
 class TestJSONSerializationCompatibility:
     """Test JSON serialization matches TypeScript JSON.stringify()."""
@@ -167,6 +227,36 @@ class TestJSONSerializationCompatibility:
         assert parsed[0]["name"] == "José"
 
 
+class TestTypedValueCompatibility:
+    """Test decoding of typed entries written by TypeScript with typedValues."""
+
+    def test_decode_typed_envelope(self):
+        """Verify tagged dates, buffers, bigints and escaped objects are restored."""
+        # TypeScript: serialize([{ id: 9007199254740993n, createdAt: new Date(...),
+        #   data: Buffer.from([0, 1, 255]), meta: { $mrc: 'date', v: 'x' } }], true)
+        typescript_entry = (
+            '{"$mrc":1,"v":[{"id":{"$mrc":"bigint","v":"9007199254740993"},'
+            '"createdAt":{"$mrc":"date","v":"2024-01-02T03:04:05.678Z"},'
+            '"data":{"$mrc":"buffer","v":"AAH/"},'
+            '"meta":{"$mrc":"object","v":{"$mrc":"date","v":"x"}}}]}'
+        )
+
+        decoded = deserialize(typescript_entry.encode('utf-8'))
+
+        assert decoded == [{
+            'id': 9007199254740993,
+            'createdAt': datetime(2024, 1, 2, 3, 4, 5, 678000, tzinfo=UTC),
+            'data': b'\x00\x01\xff',
+            'meta': {'$mrc': 'date', 'v': 'x'},
+        }]
+
+    def test_decode_plain_entry(self):
+        """Verify plain JSON entries are returned as parsed."""
+        assert deserialize(b'[{"id":1,"tags":{"$mrc":"date","v":"x"}}]') == [
+            {'id': 1, 'tags': {'$mrc': 'date', 'v': 'x'}}
+        ]
+
+
 class TestMySQLDataTypeCompatibility:
     """Test MySQL data type handling for cross-platform compatibility."""
 
@@ -1,115 +1,694 @@
 import crypto from 'crypto';
-import { createPool, Pool, PoolOptions } from 'mysql2/promise';
-import { createClient, RedisClientOptions, RedisClientType } from 'redis';
+import { EventEmitter } from 'events';
+import type { Pool, PoolOptions, ResultSetHeader } from 'mysql2/promise';
+import { RedisClientType } from 'redis';
+import {
+  Codec,
+  Compression,
+  CompressionOptions,
+  checkCodec,
+  decodeEntry,
+  encodeEntry,
+  EntryCodec,
+  jsonCodec,
+  msgpackCodec,
+} from './codecs.js';
+import {
+  ExecutorConnection,
+  isQueryExecutor,
+  QueryExecutor,
+} from './executor.js';
+import { checkComponent, HealthReport } from './health.js';
+import {
+  buildCacheKey,
+  getGenerationKey,
+  getIndexKey,
+  getTableKey,
+  hashQuery,
+  INVALIDATION_CHANNEL,
+  KeyFormat,
+  LOCK_PREFIX,
+  matchesCacheKey,
+  parseCacheKey,
+  stringifyParamValue,
+} from './keys.js';
+import LRUCache, { LocalCacheOptions } from './lru.js';
+import { compileNamedQuery } from './named.js';
+import MySQLExecutor from './mysql-executor.js';
+import { NormalizeOptions } from './normalize.js';
+import { createRedisStore, RedisConfig } from './redis-config.js';
+import RedisStore from './redis-store.js';
+import ReplicaSet, { ReplicaOptions } from './replicas.js';
+import {
+  CircuitBreaker,
+  ResilienceOptions,
+  withTimeout,
+} from './resilience.js';
+import Server, { ServerOptions } from './server.js';
+import { CacheStore, isCacheStore, StoreGuard } from './store.js';
+import { extractTables, tablesToInvalidate } from './tables.js';
+import Transaction from './transaction.js';
+import RefreshScheduler, {
+  RefreshAheadOptions,
+  WarmOptions,
+  WarmQuery,
+} from './warming.js';
+import type { ClientEvents, InvalidationEvent } from './events.js';
 
-export default class Client {
-  mysqlPool: Pool | undefined;
-  mysqlConfig: PoolOptions | string;
-  redisConfig: RedisClientOptions | undefined;
-  redisClient: RedisClientType | undefined;
+export interface SingleFlightOptions {
+  /** Expiration of the Redis fill lock in milliseconds. Default is 10 seconds. */
+  lockTtl?: number;
+  /** Maximum time in milliseconds to wait for another caller to fill the cache. Default is 5 seconds. */
+  waitTimeout?: number;
+  /** Interval in milliseconds between cache polls while waiting. Default is 50 ms. */
+  pollInterval?: number;
+}
 
+export interface ClientOptions {
+  /** Deduplicate concurrent cache fills for the same key, in process and across instances. */
+  singleFlight?: boolean | SingleFlightOptions;
   /**
-   * @param mysqlConfig - Configuration for a MySQL connection.
-   * @param redisConfig - Optional configuration for connection to Redis.
+   * Seconds an entry is still served after its ttl while it is refreshed in the background.
+   * Default is 0 (disabled).
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Record each cached entry in a Redis set per named parameter, so the server can
+   * invalidate without scanning the keyspace. Default is true.
+   */
+  indexKeys?: boolean;
+  /**
+   * Record each cached entry in a Redis set per table the query reads, so the server
+   * can invalidate by table. By default only the tables passed to a call are recorded,
+   * `false` records none.
+   */
+  trackTables?: boolean;
+  /**
+   * Format of the cache keys. Use `legacy` while older clients still share the cache.
+   * Default is `v2`.
+   */
+  keyFormat?: KeyFormat;
+  /**
+   * How values of specific column types are returned by queries. Adapters for other
+   * databases take their own policy.
+   */
+  normalize?: NormalizeOptions;
+  /**
+   * Store values in a typed envelope so that cache hits return the same Date,
+   * Buffer and BigInt values as cache misses. Default is false.
+   */
+  typedValues?: boolean;
+  /** Format of the stored values, `json`, `msgpack` or a custom codec. Default is `json`. */
+  codec?: 'json' | 'msgpack' | Codec;
+  /** Compress stored values above a size threshold. Default is no compression. */
+  compression?: Compression | CompressionOptions;
+  /**
+   * Keep recently used entries in process memory in front of Redis. Entries are not
+   * invalidated by the server before they expire. Default is disabled.
+   */
+  localCache?: boolean | LocalCacheOptions;
+  /** Timeouts, circuit breaker and reconnection settings for Redis. */
+  resilience?: ResilienceOptions;
+  /**
+   * Maximum random deviation of the ttl of stored entries, as a fraction of the ttl,
+   * so entries written together do not expire together. 0 disables it. Default is 0.1.
+   */
+  ttlJitter?: number;
+  /**
+   * Refuse to store a value when its parameters or tables were invalidated while it was
+   * computed, by comparing the generation counters incremented by the server. Covers
+   * the parameters and tables recorded in index and table sets. Default is false.
+   */
+  generations?: boolean;
+  /** Settings of the server that `execute` invalidates with. */
+  invalidation?: ServerOptions;
+  /**
+   * Read replicas that execute the queries of cache misses, except for sessions that
+   * wrote within the read-your-writes window. Default is no replicas.
+   */
+  replicas?: ReplicaOptions;
+}
+
+/**
+ * How a call uses the cache.
+ * - `read-write`: return cached values, store the result on misses.
+ * - `write-only`: skip the read, always query and store the result (force refresh).
+ * - `read-only`: return cached values, do not store the result on misses.
+ * - `bypass`: query without reading or writing the cache.
+ */
+export type CacheMode = 'read-write' | 'write-only' | 'read-only' | 'bypass';
+
+export interface CacheOptions {
+  /** Override the client's single-flight setting for this call. */
+  singleFlight?: boolean | SingleFlightOptions;
+  /** Override the client's stale-while-revalidate window for this call. */
+  staleWhileRevalidate?: number;
+  /** How this call uses the cache. Default is `read-write`. */
+  mode?: CacheMode;
+  /** Override the client's ttl jitter for this call. */
+  ttlJitter?: number;
+  /**
+   * The tables the result depends on, for table invalidation. Default is the tables
+   * found after FROM, JOIN, UPDATE, INTO, INSERT and REPLACE in the query with
+   * `trackTables`, none otherwise.
+   */
+  tables?: string[];
+  /** The session reading, whose recent writes make misses go to the primary. */
+  session?: string;
+}
+
+export interface BatchOptions extends CacheOptions {
+  /** Maximum number of queries for misses running at the same time. Default is 10. */
+  concurrency?: number;
+  /**
+   * Query all misses at once instead, for parameter sets of a single parameter. The
+   * single `?` of the query is replaced by one placeholder of the executor per value,
+   * e.g. `SELECT * FROM products WHERE id IN (?)`. The rows are assigned back to the
+   * parameter sets by the value of `column`.
+   */
+  inQuery?: { sql: string; column: string };
+}
+
+export interface NamedQuery extends CacheOptions {
+  /** A MySQL query with `:name` placeholders. */
+  sql: string;
+  /**
+   * The values of the placeholders, by name. The names of the placeholders are the
+   * parameter names used for invalidation.
+   */
+  params?: Record<string, any>;
+  /** Expiration time in seconds for the query cache. Default is 24 hours. */
+  ttl?: number;
+}
+
+export interface ExecuteOptions {
+  /** Drop the cache entries having all these parameter values, by name. */
+  invalidate?: Record<string, any>;
+  /**
+   * Drop the cache entries depending on these tables, or on the tables the statement
+   * writes if true, in which case a statement without a recognized table throws before
+   * being executed. Combined with `invalidate`, only entries matching both are dropped.
+   */
+  invalidateTables?: string[] | boolean;
+  /** The session writing, whose reads go to the primary for a while. Default is none. */
+  session?: string;
+}
+
+export type InvalidationHandler = (
+  event: InvalidationEvent
+) => void | Promise<void>;
+
+interface Subscription {
+  params: Record<string, string>;
+  handler: InvalidationHandler;
+}
+
+interface BatchEntry {
+  key: string;
+  policy: FillPolicy;
+  value: any;
+}
+
+interface FillPolicy {
+  queryHash: string;
+  mode: CacheMode;
+  ttl: number;
+  ttlJitter: number;
+  indexes: string[];
+  /** The generation counters compared before storing, empty if disabled. */
+  generations: string[];
+  singleFlight?: Required<SingleFlightOptions>;
+  staleWhileRevalidate: number;
+}
+
+/**
+ * Spread the expiration of entries so that entries written together do not expire
+ * together.
+ * @param ttl - Expiration time in seconds.
+ * @param jitter - Maximum deviation as a fraction of the ttl.
+ * @returns - The jittered expiration time in seconds.
+ */
+function jitterTtl(ttl: number, jitter: number) {
+  const dt = Math.round(ttl * jitter * (Math.random() * 2 - 1));
+  return Math.max(1, ttl + dt);
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at a time.
+ * @param items - The items to map.
+ * @param limit - The maximum number of pending calls.
+ * @param fn - The async function.
+ * @returns - The results, in the order of the items.
+ */
+async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+  return results;
+}
+
+export default class Client extends EventEmitter<ClientEvents> {
+  mysqlConfig: PoolOptions | string | undefined;
+  executor: QueryExecutor;
+  replicas: ReplicaSet | undefined;
+  redisConfig: RedisConfig | undefined;
+  store: CacheStore;
+  server: Server | undefined;
+  options: ClientOptions;
+  private codec: EntryCodec;
+  private compression: CompressionOptions | undefined;
+  private localCache: LRUCache | undefined;
+  private breaker: CircuitBreaker;
+  private inflight = new Map<string, Promise<any>>();
+  private refreshing = new Set<string>();
+  private subscriptions = new Set<Subscription>();
+  private subscribing: Promise<void> | undefined;
+  private schedulers = new Set<RefreshScheduler>();
+  private ownsStore = false;
+  private ownedExecutors: QueryExecutor[] = [];
+  private listener = (message: string) => this._dispatchInvalidation(message);
+
+  /**
+   * @param mysqlConfig - Configuration for a MySQL connection, or the query executor
+   * to use instead of MySQL.
+   * @param redisConfig - Optional configuration for connection to Redis, or the cache
+   * store to use instead of Redis.
+   * @param options - Optional caching behaviour settings.
+   * @throws - If a custom codec has no header byte between 0x10 and 0x1f.
    */
   constructor(
-    mysqlConfig: PoolOptions | string,
-    redisConfig?: RedisClientOptions
+    mysqlConfig: PoolOptions | string | QueryExecutor,
+    redisConfig?: RedisConfig | CacheStore,
+    options: ClientOptions = {}
   ) {
-    this.mysqlConfig = mysqlConfig;
-    this.redisConfig = redisConfig;
+    super();
+    this.options = options;
+    if (isQueryExecutor(mysqlConfig)) {
+      this.executor = mysqlConfig;
+    } else {
+      this.mysqlConfig = mysqlConfig;
+      this.executor = new MySQLExecutor(mysqlConfig, options.normalize);
+      this.ownedExecutors.push(this.executor);
+    }
+    if (options.replicas) {
+      const { nodes, ...replicaOptions } = options.replicas;
+      const executors = nodes.map(node => {
+        if (isQueryExecutor(node)) return node;
+        const executor = new MySQLExecutor(node, options.normalize);
+        this.ownedExecutors.push(executor);
+        return executor;
+      });
+      this.replicas = new ReplicaSet(executors, replicaOptions);
+    }
+    if (isCacheStore(redisConfig)) {
+      this.store = redisConfig;
+    } else {
+      this.redisConfig = redisConfig;
+      this.store = createRedisStore(redisConfig, options.resilience);
+      this.ownsStore = true;
+      this.store.on?.('error', (err, source) => {
+        if (source === 'client') this.breaker.failure();
+        const label = source === 'client' ? 'Redis Client Error' : 'Redis Subscriber Error';
+        this._reportError(label, err);
+      });
+    }
+    this.codec =
+      options.codec === 'msgpack'
+        ? msgpackCodec
+        : !options.codec || options.codec === 'json'
+          ? jsonCodec(options.typedValues)
+          : checkCodec(options.codec);
+    this.compression =
+      typeof options.compression === 'string'
+        ? { algorithm: options.compression }
+        : options.compression;
+    if (options.localCache)
+      this.localCache = new LRUCache(
+        options.localCache === true ? {} : options.localCache
+      );
+    this.breaker = new CircuitBreaker(options.resilience);
+  }
+
+  /**
+   * The pool of the default MySQL executor, undefined before the first query or with
+   * another executor.
+   */
+  get mysqlPool(): Pool | undefined {
+    return this.executor instanceof MySQLExecutor ? this.executor.pool : undefined;
+  }
+
+  set mysqlPool(pool: Pool | undefined) {
+    if (this.executor instanceof MySQLExecutor) this.executor.pool = pool;
+  }
+
+  /**
+   * The Redis client of the default store, undefined before connecting or with
+   * another store.
+   */
+  get redisClient(): RedisClientType | undefined {
+    return this.store instanceof RedisStore ? this.store.client : undefined;
+  }
+
+  set redisClient(client: RedisClientType | undefined) {
+    if (this.store instanceof RedisStore) this.store.client = client;
   }
 
   /**
-   * Create MySQL pool.
+   * The Redis connection of the invalidation subscriptions of the default store.
    */
-  _connectMySQL() {
-    this.mysqlPool = createPool(this.mysqlConfig as any);
+  get subscriber(): RedisClientType | undefined {
+    return this.store instanceof RedisStore ? this.store.subscriber : undefined;
+  }
+
+  set subscriber(client: RedisClientType | undefined) {
+    if (this.store instanceof RedisStore) this.store.subscriber = client;
   }
 
   /**
-   * Connect to a Redis instance.
+   * Connect to the cache store.
+   * Redis reconnects in the background with backoff after losing the connection,
+   * waiting for the first connection is limited by the operation timeout.
    */
   async _connectRedis() {
-    this.redisClient = createClient(this.redisConfig) as RedisClientType;
-    this.redisClient.on('error', (err) => {
-      this.redisClient = undefined;
-      console.log('Redis Client Error', err);
-    });
-    await this.redisClient.connect();
+    await withTimeout(
+      this.store.connect(),
+      this.options.resilience?.operationTimeout ?? 1000
+    );
   }
 
   /**
-   * Disconnect from Redis.
+   * Disconnect from the cache store, stopping refresh-ahead schedules.
    */
   async closeRedisConnection() {
-    await this.redisClient?.quit();
+    await this._stop();
+    await this.store.close();
+    this.subscribing = undefined;
   }
 
   /**
-   * Return pool to directly use mysql functions when needed.
+   * Connect to the cache store and the databases, instead of on first use, so that a
+   * wrong configuration fails at startup.
+   * @throws - If the cache store, the primary or a replica does not answer.
    */
-  getMySQLPool() {
-    if (!this.mysqlPool) this._connectMySQL();
-    return this.mysqlPool;
+  async connect() {
+    await this._connectRedis();
+    const timeout = this.options.resilience?.operationTimeout ?? 1000;
+    await Promise.all([
+      withTimeout(this.store.ping(), timeout),
+      ...this._executors().map(executor => executor.query('SELECT 1')),
+    ]);
   }
 
   /**
-   * Normalize a database row for JSON serialization.
-   * Converts MySQL DECIMAL/NUMERIC string values to numbers for compatibility with Python.
-   * @param row - A database row object
-   * @returns - Normalized row with DECIMAL values as numbers
+   * Disconnect from the cache store and close the pools of the primary and the
+   * replicas, waiting for their running queries. A store or executors passed to the
+   * constructor stay open, the client only drops its subscriptions to the store.
    */
-  private _normalizeRow(row: any): any {
-    if (Array.isArray(row)) {
-      return row.map(r => this._normalizeRow(r));
+  async close() {
+    if (this.ownsStore) {
+      await this.closeRedisConnection();
+    } else {
+      await this._stop();
+      if (this.subscribing) {
+        this.subscribing = undefined;
+        await this.store.unsubscribe(INVALIDATION_CHANNEL, this.listener);
+      }
     }
-    
-    if (row === null || typeof row !== 'object') {
-      return row;
+    await Promise.all(this.ownedExecutors.map(executor => executor.close?.()));
+  }
+
+  /**
+   * Stop the refresh-ahead schedules and the timers of the invalidating server.
+   */
+  private async _stop() {
+    for (const scheduler of this.schedulers) scheduler.stop();
+    this.schedulers.clear();
+    // the server shares the store of the client and leaves it open
+    await this.server?.close();
+    this.server = undefined;
+  }
+
+  async [Symbol.asyncDispose]() {
+    await this.close();
+  }
+
+  /**
+   * Check the cache store, the primary and the replicas, connecting if needed.
+   * The client is degraded when it can still read from the primary.
+   * @returns - The status and latency of each component.
+   */
+  async healthCheck(): Promise<HealthReport> {
+    const timeout = this.options.resilience?.operationTimeout ?? 1000;
+    const [cache, database, ...replicas] = await Promise.all([
+      checkComponent(async () => {
+        if (!this.store.isOpen) await this._connectRedis();
+        await withTimeout(this.store.ping(), timeout);
+      }),
+      ...this._executors().map(executor =>
+        checkComponent(() => executor.query('SELECT 1'))
+      ),
+    ]);
+    const degraded =
+      cache.status === 'down' || replicas.some(r => r.status === 'down');
+    const status =
+      database.status === 'down' ? 'down' : degraded ? 'degraded' : 'up';
+    return this.replicas
+      ? { status, cache, database, replicas }
+      : { status, cache, database };
+  }
+
+  /**
+   * Return the executors of the primary and the replicas.
+   */
+  private _executors() {
+    const replicas = this.replicas?.replicas ?? [];
+    return [this.executor, ...replicas.map(replica => replica.executor)];
+  }
+
+  /**
+   * Call a handler whenever a server invalidates cache entries for the given parameters.
+   * The handler is called when every parameter present in both the invalidation and
+   * the subscription has the same value and at least one is shared, or for every
+   * invalidation if no parameters are given. Invalidations are received on a
+   * dedicated connection that resubscribes after reconnecting.
+   * @param params - The parameter values to watch, by name.
+   * @param handler - The function called with each matching invalidation.
+   * @returns - A function that removes the subscription.
+   */
+  async onInvalidate(
+    params: Record<string, any>,
+    handler: InvalidationHandler
+  ): Promise<() => Promise<void>> {
+    const subscription: Subscription = {
+      params: Object.fromEntries(
+        Object.entries(params).map(([name, value]) => [
+          name,
+          stringifyParamValue(value),
+        ])
+      ),
+      handler,
+    };
+    this.subscriptions.add(subscription);
+    try {
+      await this._subscribe();
+    } catch (err) {
+      this.subscriptions.delete(subscription);
+      throw err;
     }
+    return async () => {
+      if (!this.subscriptions.delete(subscription)) return;
+      if (this.subscriptions.size > 0 || !this.subscribing) return;
+      this.subscribing = undefined;
+      await this.store.unsubscribe(INVALIDATION_CHANNEL, this.listener);
+    };
+  }
 
-    const normalized: any = {};
-    for (const key in row) {
-      const value = row[key];
-      
-      // Convert string decimals to numbers
-      // Pattern matches: optional minus, digits, optional decimal point and digits
-      if (typeof value === 'string' && /^-?\d+\.?\d*$/.test(value)) {
-        const parsed = parseFloat(value);
-        // Only convert if it's a valid number and not too large
-        if (!isNaN(parsed) && isFinite(parsed)) {
-          normalized[key] = parsed;
-          continue;
-        }
+  /**
+   * Subscribe to the invalidation channel once for every subscription.
+   */
+  private _subscribe() {
+    this.subscribing ??= this.store
+      .subscribe(INVALIDATION_CHANNEL, this.listener)
+      .catch(err => {
+        this.subscribing = undefined;
+        throw err;
+      });
+    return this.subscribing;
+  }
+
+  /**
+   * Evict the local entries of an invalidation and call the matching handlers.
+   */
+  private _dispatchInvalidation(message: string) {
+    let event: InvalidationEvent;
+    try {
+      event = JSON.parse(message);
+    } catch (err) {
+      this._reportError('Invalidation Message Error', err);
+      return;
+    }
+    this.emit('invalidation', event);
+    const names = Object.keys(event.params);
+    const values = Object.values(event.params);
+
+    if (this.localCache)
+      for (const key of [...this.localCache.keys()]) {
+        const parsed = parseCacheKey(key);
+        if (parsed && matchesCacheKey(parsed, names, values))
+          this.localCache.delete(key);
       }
-      
-      normalized[key] = value;
+
+    for (const { params, handler } of this.subscriptions) {
+      const shared = names.filter(name => name in params);
+      const matches =
+        Object.keys(params).length === 0 ||
+        (shared.length > 0 &&
+          shared.every(name => params[name] === event.params[name]));
+      if (matches)
+        Promise.resolve()
+          .then(() => handler(event))
+          .catch(err => this._reportError('Invalidation Handler Error', err));
     }
-    return normalized;
+  }
+
+  /**
+   * Remove every entry from the in-process cache.
+   */
+  clearLocalCache() {
+    this.localCache?.clear();
+  }
+
+  /**
+   * Return pool to directly use mysql functions when needed.
+   * @returns - The mysql2 pool, undefined with another executor.
+   */
+  getMySQLPool() {
+    return this.executor instanceof MySQLExecutor
+      ? this.executor.getPool()
+      : undefined;
   }
 
   /**
    * Execute the given query as Promise
-   * @param query - A MySQL query.
+   * @param query - A query with the executor's placeholders.
    * @param params - An array of parameters for the query.
-   * @returns - The result of the query.
+   * @param connection - The connection or replica to use instead of the primary.
+   * @returns - The normalized rows, or the result of a statement without rows.
+   */
+  async queryToPromise(
+    query: string,
+    params?: any[],
+    connection?: ExecutorConnection | QueryExecutor
+  ): Promise<any> {
+    return (connection ?? this.executor).query(query, params);
+  }
+
+  /**
+   * Execute an INSERT, UPDATE or DELETE statement, then invalidate the cache entries
+   * it affects. Nothing is invalidated if the statement fails. A failed invalidation
+   * is reported like other cache errors, it does not fail the call.
+   * @param sql - A MySQL statement, with `?` or `:name` placeholders.
+   * @param params - The parameters, an array for `?` or an object for `:name`.
+   * @param options - The cache entries to invalidate.
+   * @returns - The result header with the affected rows and insert id, a
+   * StatementResult with other executors.
+   */
+  async execute<Result = ResultSetHeader>(
+    sql: string,
+    params?: any[] | Record<string, any>,
+    options: ExecuteOptions = {}
+  ): Promise<Result> {
+    const { sql: statement, values } = Array.isArray(params)
+      ? { sql, values: params }
+      : compileNamedQuery(sql, params, i => this.executor.placeholder(i));
+    tablesToInvalidate(statement, options.invalidateTables);
+    const result: Result = await this.queryToPromise(statement, values);
+    this.replicas?.recordWrite(options.session);
+    await this._invalidate(statement, options);
+    return result;
+  }
+
+  /**
+   * Run a function in a MySQL transaction on a dedicated connection. Reads through the
+   * transaction bypass the cache and invalidations are applied only after COMMIT,
+   * so concurrent readers cannot cache data the transaction is about to change.
+   * The transaction is rolled back and its invalidations discarded if the function or
+   * the commit throws; that error is thrown, a failed rollback is only reported.
+   * @param fn - The function running the statements of the transaction.
+   * @returns - The result of the function.
+   */
+  async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    const connection = await this.executor.getConnection();
+    const tx = new Transaction(this, connection);
+    let result: T;
+    try {
+      await connection.beginTransaction();
+      try {
+        result = await fn(tx);
+        await connection.commit();
+      } catch (err) {
+        // the failure of the transaction is the error worth throwing
+        try {
+          await connection.rollback();
+        } catch (rollbackErr) {
+          this._reportError('Rollback Error', rollbackErr);
+        }
+        throw err;
+      }
+    } finally {
+      connection.release();
+    }
+    for (const { statement, options } of tx.pending) {
+      this.replicas?.recordWrite(options.session);
+      await this._invalidate(statement, options);
+    }
+    return result;
+  }
+
+  /**
+   * Drop the cache entries affected by a statement, from Redis and the local cache.
    */
-  async queryToPromise(query: string, params?: any[]): Promise<any> {
-    if (!this.mysqlPool) this._connectMySQL();
+  private async _invalidate(statement: string, options: ExecuteOptions) {
+    const { invalidate, invalidateTables } = options;
+    const names = Object.keys(invalidate ?? {});
+    const values = Object.values(invalidate ?? {});
+    const tables = tablesToInvalidate(statement, invalidateTables);
+    if (tables.length === 0 && names.length === 0) return;
 
-    const [rows] = await this.mysqlPool!.query(query, params);
-    
-    // Normalize rows to convert DECIMAL strings to numbers
-    if (Array.isArray(rows)) {
-      return rows.map(row => this._normalizeRow(row));
+    if (this.localCache)
+      for (const key of [...this.localCache.keys()]) {
+        const parsed = parseCacheKey(key);
+        if (parsed && matchesCacheKey(parsed, names, values))
+          this.localCache.delete(key);
+      }
+
+    this.server ??= new Server(this.store, {
+      resilience: this.options.resilience,
+      ...this.options.invalidation,
+    });
+    try {
+      if (tables.length > 0) await this.server.invalidateTables(tables, names, values);
+      else await this.server.dropOutdatedCache(names, values);
+    } catch (err) {
+      this._reportError('Cache Invalidation Error', err);
     }
-    
-    return this._normalizeRow(rows);
   }
 
   /**
    * Generate a unique key from the given query and parameters.
+   * All parameter values are part of the hash, the named ones are also visible in
+   * the key for invalidation.
    * @param query - A MySQL query.
    * @param params - The parameters for the query.
    * @param paramNames - The names of the query parameters.
@@ -120,14 +699,15 @@ export default class Client {
     params?: any[],
     paramNames: string[] = []
   ): string {
-    const hash = crypto.createHash('sha1').update(query).digest('hex');
-    let key = '';
-    if (params && params.length > 0)
-      paramNames.forEach((name, i) => {
-        key += name + '=' + params[i] + '_';
-      });
-    key += hash;
-    return key;
+    const count = params?.length ?? 0;
+    if (paramNames.length > count)
+      throw new Error(
+        `Got ${paramNames.length} parameter names for ${count} parameters`
+      );
+    const format = this.options.keyFormat ?? 'v2';
+    const hash =
+      format === 'legacy' ? hashQuery(query) : hashQuery(query, params);
+    return buildCacheKey(hash, params, paramNames, format);
   }
 
   /**
@@ -137,19 +717,40 @@ export default class Client {
    * @param paramNames - The names of the query parameters.
    * @returns - The query result.
    */
-  async readFromCache(
+  async readFromCache<T = any>(
     query: string,
     params?: any[],
     paramNames: string[] = []
-  ) {
-    // check Redis connection
-    if (!this.redisClient) await this._connectRedis();
+  ): Promise<T | null> {
     // get key for query
     const key = this.getKeyFromQuery(query, params, paramNames);
-    // get cached query result from redis
-    const result = await this.redisClient?.get(key);
-    // if found return cached value
-    if (result) return JSON.parse(result);
+    const queryHash = hashQuery(query);
+    const start = performance.now();
+    const local = this.localCache?.get(key);
+    if (local !== undefined) {
+      this._emitHit(key, queryHash, start, local, 'local');
+      return decodeEntry(local, this.codec);
+    }
+    // check Redis connection
+    if (!(await this._available())) return null;
+    try {
+      // get cached query result from redis
+      const [result, pttl] = await this._call(store =>
+        Promise.all([
+          store.get(key),
+          this.localCache ? store.ttl(key) : undefined,
+        ])
+      );
+      // if found return cached value
+      if (result) {
+        this._emitHit(key, queryHash, start, result, 'redis');
+        this._setLocal(key, result, pttl);
+        return await decodeEntry(result, this.codec);
+      }
+      this.emit('miss', { key, queryHash, duration: performance.now() - start });
+    } catch (err) {
+      this._reportError('Cache Error', err, key, queryHash);
+    }
     return null;
   }
 
@@ -169,15 +770,16 @@ export default class Client {
     paramNames: string[] = [],
     ttl = 86400
   ) {
-    // check Redis connection
-    if (!this.redisClient) await this._connectRedis();
     // get key for query
     const key = this.getKeyFromQuery(query, params, paramNames);
     // set key with ttl
-    const dt = Math.round(ttl * (Math.random() * 0.2 - 0.1));
-    return this.redisClient?.set(key, JSON.stringify(value), {
-      EX: ttl + dt,
-    });
+    const ex = jitterTtl(ttl, this.options.ttlJitter ?? 0.1);
+    const indexes = [
+      ...this._indexKeys(params, paramNames),
+      ...this._tableKeys(query),
+    ];
+    const queryHash = hashQuery(query);
+    return this._store(key, queryHash, value, ex, ex, indexes);
   }
 
   /**
@@ -187,49 +789,754 @@ export default class Client {
    * @param params - The parameters for the query.
    * @param paramNames - The names of the query parameters.
    * @param ttl - Expiration time in seconds for the query cache. Default is 24 hours.
+   * @param options - Per-call caching behaviour.
    * @returns - The query result.
    */
-  async withCache(
-    fn: () => Promise<any>,
+  async withCache<T = any>(
+    fn: () => Promise<T>,
     query: string,
     params?: any[],
     paramNames: string[] = [],
-    ttl = 86400
-  ) {
-    // check Redis connection
-    if (!this.redisClient) await this._connectRedis();
+    ttl = 86400,
+    options: CacheOptions = {}
+  ): Promise<T> {
+    if (options.mode === 'bypass') return fn();
     // get key for query
     const key = this.getKeyFromQuery(query, params, paramNames);
-    // get cached query result from redis
-    const result = await this.redisClient?.get(key);
-    // if found return cached value
-    if (result) return JSON.parse(result);
-    // else execute query
+    const policy = this._fillPolicy(query, ttl, options, params, paramNames);
+    if (policy.mode === 'write-only') return this._fill(key, fn, policy);
+    if (!policy.singleFlight) return this._readOrFill(key, fn, policy);
+
+    // share a pending lookup for the same key within this process
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+    const promise = this._readOrFill(key, fn, policy).finally(() => {
+      this.inflight.delete(key);
+    });
+    this.inflight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Check the cache for several sets of parameters of the same query at once. Entries
+   * are read with one MGET and the misses, loaded with a single call of the function,
+   * are written with one pipeline. Single-flight and stale-while-revalidate refreshes
+   * do not apply.
+   * @param fn - A function executing the query for the given parameter sets, returning
+   * one result per set in the same order.
+   * @param query - The function query signature.
+   * @param paramSets - The parameters for each execution of the query.
+   * @param paramNames - The names of the query parameters.
+   * @param ttl - Expiration time in seconds for the query cache. Default is 24 hours.
+   * @param options - Per-call caching behaviour.
+   * @returns - The result for each parameter set, in order.
+   */
+  async withCacheMany<T = any>(
+    fn: (paramSets: any[][]) => Promise<T[]>,
+    query: string,
+    paramSets: any[][],
+    paramNames: string[] = [],
+    ttl = 86400,
+    options: CacheOptions = {}
+  ): Promise<T[]> {
+    if (paramSets.length === 0) return [];
+    if (options.mode === 'bypass') return fn(paramSets);
+    const keys = paramSets.map(p => this.getKeyFromQuery(query, p, paramNames));
+    const policies = paramSets.map(p =>
+      this._fillPolicy(query, ttl, options, p, paramNames)
+    );
+    const { mode, queryHash } = policies[0];
+    const results: T[] = new Array(paramSets.length);
+    const missing =
+      mode === 'write-only'
+        ? paramSets.map((_, i) => i)
+        : await this._readMany(keys, queryHash, results);
+    if (missing.length === 0) return results;
+
+    // read the generations before the query, so that later invalidations are noticed
+    const generations = [...new Set(missing.flatMap(i => policies[i].generations))];
+    const stamps =
+      generations.length > 0
+        ? await this._readGenerations(keys[missing[0]], generations)
+        : [];
+    const values = await fn(missing.map(i => paramSets[i]));
+    if (!Array.isArray(values) || values.length !== missing.length)
+      throw new Error(
+        `Expected ${missing.length} results, one per parameter set, got ${
+          Array.isArray(values) ? values.length : typeof values
+        }`
+      );
+    missing.forEach((i, j) => (results[i] = values[j]));
+    // values that cannot be checked against invalidations are not stored
+    if (mode !== 'read-only' && stamps) {
+      const current = new Map(generations.map((key, i) => [key, stamps[i]]));
+      await this._storeMany(
+        missing.map((i, j) => ({ key: keys[i], policy: policies[i], value: values[j] })),
+        current
+      );
+    }
+    return results;
+  }
+
+  /**
+   * Read entries from the local cache and Redis, filling in the results of the hits.
+   * @returns - The indexes of the entries that were not found.
+   */
+  private async _readMany(
+    keys: string[],
+    queryHash: string,
+    results: any[]
+  ): Promise<number[]> {
+    const start = performance.now();
+    const remote: number[] = [];
+    for (let i = 0; i < keys.length; i++) {
+      const local = this.localCache?.get(keys[i]);
+      if (local === undefined) {
+        remote.push(i);
+        continue;
+      }
+      this._emitHit(keys[i], queryHash, start, local, 'local');
+      results[i] = await decodeEntry(local, this.codec);
+    }
+    if (remote.length === 0) return remote;
+    // bypass the cache while redis is unavailable
+    if (!(await this._available())) return remote;
+    let entries: (Buffer | null)[];
+    try {
+      entries = await this._call(store => store.getMany(remote.map(i => keys[i])));
+    } catch (err) {
+      this._reportError('Cache Error', err, undefined, queryHash);
+      return remote;
+    }
+    const missing: number[] = [];
+    for (const [j, i] of remote.entries()) {
+      const entry = entries[j];
+      if (entry) {
+        this._emitHit(keys[i], queryHash, start, entry, 'redis');
+        results[i] = await decodeEntry(entry, this.codec);
+      } else {
+        this.emit('miss', {
+          key: keys[i],
+          queryHash,
+          duration: performance.now() - start,
+        });
+        missing.push(i);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Store values with one pipeline, then add the stored ones to their index sets with
+   * another. Failures are logged, not thrown.
+   * @param entries - The keys, fill policies and values to store.
+   * @param stamps - The values the generation counters must still have, by key.
+   */
+  private async _storeMany(entries: BatchEntry[], stamps: Map<string, string>) {
+    try {
+      const start = performance.now();
+      const writes = await Promise.all(
+        entries.map(async ({ key, policy, value }) => {
+          const fresh = jitterTtl(policy.ttl, policy.ttlJitter);
+          const ex = fresh + policy.staleWhileRevalidate;
+          return { key, policy, fresh, ex, payload: await this._encode(value) };
+        })
+      );
+      if (!(await this._available())) return;
+      const replies = await this._call(store =>
+        store.setMany(
+          writes.map(({ key, policy, ex, payload }) => ({
+            key,
+            value: payload,
+            ttl: ex,
+            guard: this._guard(policy.generations, stamps),
+          }))
+        )
+      );
+      // entries invalidated while their values were computed are not stored
+      const stored = writes.filter((_, i) => replies[i]);
+      if (stored.some(({ policy }) => policy.indexes.length > 0))
+        await this._call(store =>
+          store.addToSets(
+            stored.map(({ key, policy, ex }) => ({
+              member: key,
+              sets: policy.indexes,
+              ttl: ex,
+            }))
+          )
+        );
+      const duration = performance.now() - start;
+      for (const { key, policy, fresh, ex, payload } of stored) {
+        this._setLocal(key, payload, fresh * 1000);
+        const size = Buffer.byteLength(payload);
+        const { queryHash } = policy;
+        this.emit('write', { key, queryHash, duration, size, ttl: ex });
+      }
+    } catch (err) {
+      this._reportError('Cache Error', err, undefined, entries[0]?.policy.queryHash);
+    }
+  }
+
+  /**
+   * Return the condition for storing an entry computed after reading the generations.
+   * @param generations - The keys of the generation counters of the entry.
+   * @param stamps - The values read before computing the entry, by key.
+   */
+  private _guard(
+    generations: string[],
+    stamps: Map<string, string>
+  ): StoreGuard | undefined {
+    if (generations.length === 0) return undefined;
+    return { keys: generations, values: generations.map(g => stamps.get(g)!) };
+  }
+
+  /**
+   * Populate the cache with the results of queries, replacing existing entries, for
+   * example after a deploy or a Redis flush. Failed queries are reported like cache
+   * errors and do not stop the others.
+   * @param queries - The queries and the parameter sets to execute them with.
+   * @param options - Optional concurrency limit.
+   * @returns - The number of executions that succeeded.
+   */
+  async warm(queries: WarmQuery[], options: WarmOptions = {}): Promise<number> {
+    const jobs = queries.flatMap(query =>
+      (query.paramSets ?? [[]]).map(params => ({ query, params }))
+    );
+    const done = await mapConcurrent(
+      jobs,
+      options.concurrency ?? 4,
+      async ({ query, params }) => {
+        const { sql, paramNames = [], ttl = 86400, paramSets, ...cacheOptions } = query;
+        try {
+          await this.withCache(
+            () => this._read(sql, params, cacheOptions.session),
+            sql,
+            params,
+            paramNames,
+            ttl,
+            { ...cacheOptions, mode: 'write-only' }
+          );
+          return true;
+        } catch (err) {
+          this._reportError('Cache Warming Error', err, undefined, hashQuery(sql));
+          return false;
+        }
+      }
+    );
+    return done.filter(Boolean).length;
+  }
+
+  /**
+   * Warm hot queries now and refresh them again shortly before their entries can
+   * expire, so they never go cold. Refreshes stop when the Redis connection is closed.
+   * @param queries - The queries and the parameter sets to keep cached.
+   * @param options - Optional concurrency limit and refresh lead time.
+   * @returns - A function that stops refreshing the queries.
+   */
+  refreshAhead(queries: WarmQuery[], options: RefreshAheadOptions = {}): () => void {
+    const scheduler = new RefreshScheduler(err =>
+      this._reportError('Cache Warming Error', err)
+    );
+    this.schedulers.add(scheduler);
+    for (const query of queries) {
+      const ttl = query.ttl ?? 86400;
+      const jitter = query.ttlJitter ?? this.options.ttlJitter ?? 0.1;
+      const lead = options.lead ?? ttl * 0.1;
+      // the earliest expiration of a jittered entry, minus the lead time
+      const interval = Math.max(1, ttl * (1 - jitter) - lead) * 1000;
+      scheduler.every(interval, async () => {
+        await this.warm([query], options);
+      });
+    }
+    return () => {
+      scheduler.stop();
+      this.schedulers.delete(scheduler);
+    };
+  }
+
+  /**
+   * Resolve the caching behaviour of a call from its options and the client defaults.
+   */
+  private _fillPolicy(
+    query: string,
+    ttl: number,
+    options: CacheOptions,
+    params?: any[],
+    paramNames: string[] = []
+  ): FillPolicy {
+    const setting = options.singleFlight ?? this.options.singleFlight;
+    const singleFlight = setting
+      ? {
+          lockTtl: 10000,
+          waitTimeout: 5000,
+          pollInterval: 50,
+          ...(setting === true ? {} : setting),
+        }
+      : undefined;
+    const staleWhileRevalidate =
+      options.staleWhileRevalidate ?? this.options.staleWhileRevalidate ?? 0;
+    const indexes = [
+      ...this._indexKeys(params, paramNames),
+      ...this._tableKeys(query, options.tables),
+    ];
+    const queryHash = hashQuery(query);
+    const mode = options.mode ?? 'read-write';
+    const ttlJitter = options.ttlJitter ?? this.options.ttlJitter ?? 0.1;
+    const generations = this.options.generations
+      ? indexes.map(getGenerationKey)
+      : [];
+    return {
+      queryHash,
+      mode,
+      ttl,
+      ttlJitter,
+      indexes,
+      generations,
+      singleFlight,
+      staleWhileRevalidate,
+    };
+  }
+
+  /**
+   * Return the cached value for the key, or execute the function and cache its result.
+   * With single-flight enabled only the holder of the Redis lock executes the function,
+   * other callers wait for the value to appear until the wait timeout expires.
+   */
+  private async _readOrFill(
+    key: string,
+    fn: () => Promise<any>,
+    policy: FillPolicy
+  ) {
+    const { queryHash } = policy;
+    const start = performance.now();
+    const local = this.localCache?.get(key);
+    if (local !== undefined) {
+      this._emitHit(key, queryHash, start, local, 'local');
+      return decodeEntry(local, this.codec);
+    }
+    // bypass the cache while redis is unavailable
+    if (!(await this._available())) return fn();
+    let result: Buffer | null;
+    let pttl: number | undefined;
+    try {
+      // get cached query result and its remaining lifetime from redis
+      [result, pttl] = await this._call(store =>
+        Promise.all([
+          store.get(key),
+          policy.staleWhileRevalidate > 0 || this.localCache
+            ? store.ttl(key)
+            : undefined,
+        ])
+      );
+    } catch (err) {
+      this._reportError('Cache Error', err, key, queryHash);
+      return fn();
+    }
+    if (result) {
+      this._emitHit(key, queryHash, start, result, 'redis');
+      const window = policy.staleWhileRevalidate * 1000;
+      const stale = pttl !== undefined && pttl >= 0 && pttl <= window;
+      // past the soft ttl: serve the stale value and refresh it in the background
+      if (stale && policy.mode !== 'read-only')
+        this._refreshInBackground(key, fn, policy);
+      else if (!stale && pttl !== undefined)
+        this._setLocal(key, result, pttl - window);
+      return decodeEntry(result, this.codec);
+    }
+    this.emit('miss', { key, queryHash, duration: performance.now() - start });
+    if (policy.mode === 'read-only') return fn();
+    if (!policy.singleFlight) return this._fill(key, fn, policy);
+
+    const token = await this._acquireLock(key, policy.singleFlight.lockTtl);
+    if (token) {
+      try {
+        return await this._fill(key, fn, policy);
+      } finally {
+        await this._releaseLock(key, token);
+      }
+    }
+    // the lock could not be checked, query directly
+    if (token === null) return this._fill(key, fn, policy);
+
+    // another caller is filling the cache, poll until the value appears
+    const { waitTimeout, pollInterval } = policy.singleFlight;
+    const deadline = Date.now() + waitTimeout;
+    try {
+      while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, pollInterval));
+        const value = await this._call(store => store.get(key));
+        if (value) {
+          this._emitHit(key, queryHash, start, value, 'redis');
+          return await decodeEntry(value, this.codec);
+        }
+      }
+    } catch (err) {
+      this._reportError('Cache Error', err, key, queryHash);
+    }
+    // give up waiting and query directly
+    return this._fill(key, fn, policy);
+  }
+
+  /**
+   * Execute the function and store its result with a jittered ttl.
+   * The entry outlives the ttl by the stale-while-revalidate window. With generations
+   * enabled, the result is only stored if nothing it depends on was invalidated meanwhile.
+   */
+  private async _fill(key: string, fn: () => Promise<any>, policy: FillPolicy) {
+    const { ttl, ttlJitter, staleWhileRevalidate, generations } = policy;
+    // read the generations before the query, so that later invalidations are noticed
+    const stamps =
+      generations.length > 0 ? await this._readGenerations(key, generations) : [];
+    // execute query
     const r = await fn();
+    // the value cannot be checked against invalidations, do not store it
+    if (!stamps) return r;
     // set key with ttl
-    const dt = Math.round(ttl * (Math.random() * 0.2 - 0.1));
-    await this.redisClient?.set(key, JSON.stringify(r), {
-      EX: ttl + dt,
-    });
+    const fresh = jitterTtl(ttl, ttlJitter);
+    const ex = fresh + staleWhileRevalidate;
+    const guard =
+      stamps.length > 0 ? { keys: generations, values: stamps } : undefined;
+    await this._store(key, policy.queryHash, r, ex, fresh, policy.indexes, guard);
     // return query result
     return r;
   }
 
+  /**
+   * Read the current values of generation counters.
+   * @returns - The values, '0' for missing counters, null if Redis could not be reached.
+   */
+  private async _readGenerations(key: string, generations: string[]) {
+    if (!(await this._available())) return null;
+    try {
+      const values = await this._call(store => store.getMany(generations));
+      return values.map(value => value?.toString() ?? '0');
+    } catch (err) {
+      this._reportError('Cache Error', err, key);
+      return null;
+    }
+  }
+
+  /**
+   * Store a value and add it to its index sets. Failures are logged, not thrown,
+   * so that a Redis outage does not fail the query.
+   * @param key - The cache key.
+   * @param queryHash - The hash of the query, for events.
+   * @param value - The value to store.
+   * @param ex - Expiration time in seconds of the entry in Redis.
+   * @param fresh - Seconds the entry may be served from the local cache.
+   * @param indexes - The keys of the index sets.
+   * @param guard - The generation counters and the values they must still have.
+   * @returns - 'OK' if the value was stored, undefined otherwise.
+   */
+  private async _store(
+    key: string,
+    queryHash: string,
+    value: any,
+    ex: number,
+    fresh: number,
+    indexes: string[],
+    guard?: StoreGuard
+  ) {
+    try {
+      const start = performance.now();
+      const payload = await this._encode(value);
+      // encode first, a half-open circuit lets a single store call through
+      if (!(await this._available())) return undefined;
+      const stored = await this._call(store => store.set(key, payload, ex, guard));
+      // invalidated while the value was computed
+      if (!stored) return undefined;
+      this._setLocal(key, payload, fresh * 1000);
+      await this._addToIndexes(key, indexes, ex);
+      const duration = performance.now() - start;
+      const size = Buffer.byteLength(payload);
+      this.emit('write', { key, queryHash, duration, size, ttl: ex });
+      return 'OK';
+    } catch (err) {
+      this._reportError('Cache Error', err, key, queryHash);
+      return undefined;
+    }
+  }
+
+  /**
+   * Emit a hit event for an entry found in the cache.
+   */
+  private _emitHit(
+    key: string,
+    queryHash: string,
+    start: number,
+    payload: Buffer | string,
+    source: 'local' | 'redis'
+  ) {
+    const duration = performance.now() - start;
+    const size = Buffer.byteLength(payload);
+    this.emit('hit', { key, queryHash, duration, size, source });
+  }
+
+  /**
+   * Emit an error event, or log the error when nobody listens to error events.
+   * @param label - The prefix of the logged message.
+   * @param error - The error.
+   * @param key - The cache key the error concerns, if any.
+   * @param queryHash - The hash of the query the error concerns, if any.
+   */
+  private _reportError(
+    label: string,
+    error: unknown,
+    key?: string,
+    queryHash?: string
+  ) {
+    if (this.listenerCount('error') > 0)
+      this.emit('error', { error, key, queryHash });
+    else console.log(label, error);
+  }
+
+  /**
+   * Return the cache store if it can be used, connecting on first use.
+   * @returns - The store, undefined while it is unavailable or the circuit is open.
+   */
+  private async _available() {
+    if (!this.store.isOpen) {
+      try {
+        await this._connectRedis();
+      } catch (err) {
+        this.breaker.failure();
+        this._reportError('Redis Client Error', err);
+      }
+    }
+    if (!this.store.isReady || !this.breaker.allow()) return undefined;
+    return this.store;
+  }
+
+  /**
+   * Run a cache store operation within the operation timeout and record its outcome
+   * in the circuit breaker.
+   * @param op - The operation on the store.
+   * @returns - The result of the operation.
+   */
+  private async _call<T>(op: (store: CacheStore) => Promise<T>): Promise<T> {
+    try {
+      const reply = await withTimeout(
+        op(this.store),
+        this.options.resilience?.operationTimeout ?? 1000
+      );
+      this.breaker.success();
+      return reply;
+    } catch (err) {
+      this.breaker.failure();
+      throw err;
+    }
+  }
+
+  /**
+   * Encode a value with the client's codec and compression.
+   */
+  private _encode(value: any) {
+    return encodeEntry(value, this.codec, this.compression);
+  }
+
+  /**
+   * Keep an entry in the in-process cache for at most its remaining Redis lifetime.
+   * @param key - The cache key.
+   * @param payload - The encoded entry.
+   * @param pttl - Remaining lifetime in milliseconds in Redis, negative if it has no expiration.
+   */
+  private _setLocal(key: string, payload: Buffer | string, pttl?: number) {
+    const maxTtl = pttl !== undefined && pttl >= 0 ? pttl : undefined;
+    this.localCache?.set(key, payload, maxTtl);
+  }
+
+  /**
+   * Return the index sets a cache entry belongs to, one per named parameter.
+   */
+  private _indexKeys(params?: any[], paramNames: string[] = []): string[] {
+    if (this.options.indexKeys === false || !params || params.length === 0)
+      return [];
+    return paramNames.map((name, i) => getIndexKey(name, params[i]));
+  }
+
+  /**
+   * Return the table sets a cache entry belongs to, one per table the query depends on.
+   */
+  private _tableKeys(query: string, tables?: string[]): string[] {
+    if (this.options.trackTables === false) return [];
+    tables ??= this.options.trackTables ? extractTables(query) : [];
+    return [...new Set(tables)].map(getTableKey);
+  }
+
+  /**
+   * Add a cache entry to its index sets.
+   * @param key - The key of the cache entry.
+   * @param indexes - The keys of the index sets.
+   * @param ttl - Expiration time in seconds of the cache entry.
+   */
+  private async _addToIndexes(key: string, indexes: string[], ttl: number) {
+    await this._call(store =>
+      store.addToSets([{ member: key, sets: indexes, ttl }])
+    );
+  }
+
+  /**
+   * Recompute a stale entry without blocking the caller.
+   * Only one refresh per key runs at a time, in process and across instances.
+   */
+  private _refreshInBackground(
+    key: string,
+    fn: () => Promise<any>,
+    policy: FillPolicy
+  ) {
+    if (this.refreshing.has(key)) return;
+    this.refreshing.add(key);
+    const lockTtl = policy.singleFlight?.lockTtl ?? 10000;
+    (async () => {
+      const token = await this._acquireLock(key, lockTtl);
+      if (!token) return;
+      try {
+        await this._fill(key, fn, policy);
+      } finally {
+        await this._releaseLock(key, token);
+      }
+    })()
+      .catch(err =>
+        this._reportError('Cache Refresh Error', err, key, policy.queryHash)
+      )
+      .finally(() => this.refreshing.delete(key));
+  }
+
+  /**
+   * Try to acquire the fill lock for a key.
+   * @returns - The lock token if acquired, undefined if another caller holds the
+   * lock, null if Redis could not be reached.
+   */
+  private async _acquireLock(key: string, lockTtl: number) {
+    const token = crypto.randomUUID();
+    try {
+      const acquired = await this._call(store =>
+        store.lock(LOCK_PREFIX + key, token, lockTtl)
+      );
+      return acquired ? token : undefined;
+    } catch (err) {
+      this._reportError('Cache Error', err, key);
+      return null;
+    }
+  }
+
+  /**
+   * Release the fill lock for a key if still owned by the token.
+   */
+  private async _releaseLock(key: string, token: string) {
+    try {
+      await this._call(store => store.unlock(LOCK_PREFIX + key, token));
+    } catch (err) {
+      this._reportError('Cache Error', err, key);
+    }
+  }
+
+  /**
+   * Check the cache for several sets of parameters of the same MySQL query at once.
+   * @param query - A MySQL query.
+   * @param paramSets - The parameters for each execution of the query.
+   * @param paramNames - The names of the query parameters.
+   * @param ttl - Expiration time in seconds for the query cache. Default is 24 hours.
+   * @param options - Per-call caching behaviour and how misses are queried.
+   * @returns - The query result for each parameter set, in order.
+   * @throws - If `inQuery` has no single `?` or a parameter set has several parameters.
+   */
+  async queryManyWithCache<Row = any>(
+    query: string,
+    paramSets: any[][],
+    paramNames: string[] = [],
+    ttl = 86400,
+    options: BatchOptions = {}
+  ): Promise<Row[][]> {
+    const { concurrency = 10, inQuery, ...cacheOptions } = options;
+    const { session } = cacheOptions;
+    if (inQuery) {
+      if (inQuery.sql.split('?').length !== 2)
+        throw new Error('inQuery needs a query with a single ?');
+      if (paramSets.some(p => p.length !== 1))
+        throw new Error('inQuery needs parameter sets of a single parameter');
+    }
+    const fn = async (sets: any[][]): Promise<Row[][]> => {
+      if (!inQuery)
+        return mapConcurrent(sets, concurrency, p => this._read(query, p, session));
+      // one query for every miss, its rows grouped by the parameter
+      const placeholders = sets.map((_, i) => this.executor.placeholder(i)).join(', ');
+      const rows: any[] = await this._read(
+        inQuery.sql.replace('?', placeholders),
+        sets.map(p => p[0]),
+        session
+      );
+      const groups = new Map<string, Row[]>();
+      for (const row of rows) {
+        const value = stringifyParamValue(row[inQuery.column]);
+        const group = groups.get(value);
+        if (group) group.push(row);
+        else groups.set(value, [row]);
+      }
+      return sets.map(p => groups.get(stringifyParamValue(p[0])) ?? []);
+    };
+    return this.withCacheMany(fn, query, paramSets, paramNames, ttl, cacheOptions);
+  }
+
+  /**
+   * Check the cache before executing a MySQL query with named parameters.
+   * @param query - The query, its named parameters, ttl and caching behaviour.
+   * @returns - The query result.
+   */
+  async queryWithCache<Row = any>(query: NamedQuery): Promise<Row[]>;
   /**
    * Check the cache before executing a MySQL query.
    * @param query - A MySQL query.
    * @param params - The parameters for the query.
    * @param paramNames - The names of the query parameters.
    * @param ttl - Expiration time in seconds for the query cache. Default is 24 hours.
+   * @param options - Per-call caching behaviour.
    * @returns - The query result.
    */
-  async queryWithCache(
+  async queryWithCache<Row = any>(
     query: string,
     params?: any[],
+    paramNames?: string[],
+    ttl?: number,
+    options?: CacheOptions
+  ): Promise<Row[]>;
+  async queryWithCache<Row = any>(
+    query: string | NamedQuery,
+    params?: any[],
     paramNames: string[] = [],
-    ttl = 86400
-  ) {
-    const fn = () => this.queryToPromise(query, params);
-    return this.withCache(fn, query, params, paramNames, ttl);
+    ttl = 86400,
+    options: CacheOptions = {}
+  ): Promise<Row[]> {
+    if (typeof query !== 'string') {
+      const { sql, params: named = {}, ttl = 86400, ...cacheOptions } = query;
+      const { sql: compiled, values, names } = compileNamedQuery(sql, named, i =>
+        this.executor.placeholder(i)
+      );
+      const fn = () => this._read(compiled, values, cacheOptions.session);
+      // the key holds each named value once, the query one value per placeholder
+      const keyParams = names.map(name => named[name]);
+      return this.withCache(fn, compiled, keyParams, names, ttl, cacheOptions);
+    }
+    const fn = () => this._read(query, params, options.session);
+    return this.withCache(fn, query, params, paramNames, ttl, options);
+  }
+
+  /**
+   * Execute a query filling the cache, on a replica unless the session wrote
+   * recently. A failing replica is left out of the rotation for a while and the query
+   * is executed on the primary instead.
+   */
+  private async _read(query: string, params?: any[], session?: string) {
+    const replica = this.replicas?.pick(session);
+    if (!replica) return this.queryToPromise(query, params);
+    try {
+      const rows = await this.queryToPromise(query, params, replica.executor);
+      replica.breaker.success();
+      return rows;
+    } catch (err) {
+      replica.breaker.failure();
+      this._reportError('Replica Error', err);
+      return this.queryToPromise(query, params);
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,155 @@
+/**
+ * Codecs for the values stored in the cache.
+ *
+ * JSON entries are stored without a header, so entries written by older clients
+ * stay readable. Every other format starts with a header byte below 0x20 that
+ * cannot start a JSON document:
+ * - `0x01` MessagePack
+ * - `0x02` gzip, followed by the compressed entry including its own header
+ * - `0x03` brotli, followed by the compressed entry including its own header
+ * - `0x10` to `0x1f` custom codecs
+ */
+
+import { promisify } from 'util';
+import zlib from 'zlib';
+import { decode, encode, ExtensionCodec } from '@msgpack/msgpack';
+import { deserialize, serialize } from './serialization.js';
+
+export type Compression = 'gzip' | 'brotli';
+
+export interface Codec {
+  /** Header byte written before the encoded values, between 0x10 and 0x1f. */
+  readonly header: number;
+  /** Encode a value to bytes, or to a string for text formats. */
+  encode(value: any): Buffer | string;
+  /** Decode bytes produced by encode. */
+  decode(data: Buffer): any;
+}
+
+/**
+ * A codec of the client, the JSON codec writing no header.
+ */
+export type EntryCodec = Omit<Codec, 'header'> & { readonly header?: number };
+
+export interface CompressionOptions {
+  algorithm: Compression;
+  /** Minimum size in bytes of an encoded value to be compressed. Default is 1024. */
+  threshold?: number;
+}
+
+const MSGPACK_HEADER = 0x01;
+const GZIP_HEADER = 0x02;
+const BROTLI_HEADER = 0x03;
+const CUSTOM_HEADERS = [0x10, 0x1f];
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+// bigints and buffers are restored as such, dates use the timestamp extension
+const extensionCodec = new ExtensionCodec();
+extensionCodec.register({
+  type: 0,
+  encode: value =>
+    typeof value === 'bigint' ? Buffer.from(value.toString()) : null,
+  decode: data => BigInt(Buffer.from(data).toString()),
+});
+extensionCodec.register({
+  type: 1,
+  encode: value => (value instanceof Uint8Array ? value : null),
+  decode: data => Buffer.from(data),
+});
+
+/**
+ * Create the JSON codec.
+ * @param typed - Store values in a typed envelope, see serialization.
+ * @returns - The codec.
+ */
+export function jsonCodec(typed = false): EntryCodec {
+  return {
+    encode: value => serialize(value, typed),
+    decode: data => deserialize(data.toString()),
+  };
+}
+
+/**
+ * The MessagePack codec. Dates, buffers and bigints are always restored.
+ */
+export const msgpackCodec: Codec = {
+  header: MSGPACK_HEADER,
+  encode: value => {
+    const bytes = encode(value, { extensionCodec, ignoreUndefined: true });
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  },
+  decode: data => decode(data, { extensionCodec }),
+};
+
+/**
+ * Check that a custom codec declares a header byte of the range left to custom codecs.
+ * @param codec - The custom codec.
+ * @returns - The codec.
+ * @throws - If the header is missing or outside of 0x10 to 0x1f.
+ */
+export function checkCodec(codec: Codec): Codec {
+  const [min, max] = CUSTOM_HEADERS;
+  const { header } = codec;
+  if (!Number.isInteger(header) || header < min || header > max)
+    throw new Error(
+      `Custom codecs need a header byte between 0x10 and 0x1f, got ${String(header)}`
+    );
+  return codec;
+}
+
+/**
+ * Encode a value for the cache, compressing it when it is large enough.
+ * @param value - The value to store.
+ * @param codec - The codec to encode the value with.
+ * @param compression - Optional compression of large values.
+ * @returns - The stored value.
+ */
+export async function encodeEntry(
+  value: any,
+  codec: EntryCodec,
+  compression?: CompressionOptions
+): Promise<Buffer | string> {
+  const body = codec.encode(value);
+  const data =
+    codec.header === undefined
+      ? body
+      : Buffer.concat([Buffer.of(codec.header), Buffer.from(body)]);
+  if (!compression || Buffer.byteLength(data) < (compression.threshold ?? 1024))
+    return data;
+  if (compression.algorithm === 'brotli')
+    return Buffer.concat([Buffer.of(BROTLI_HEADER), await brotliCompress(data)]);
+  return Buffer.concat([Buffer.of(GZIP_HEADER), await gzip(data)]);
+}
+
+/**
+ * Decode a cached entry, detecting its format from the header byte.
+ * @param data - The stored value.
+ * @param codec - The codec of the reader, needed for custom formats.
+ * @returns - The value.
+ */
+export async function decodeEntry(
+  data: Buffer | string,
+  codec?: EntryCodec
+): Promise<any> {
+  if (typeof data === 'string') data = Buffer.from(data);
+  const header = data[0];
+  // whitespace may start a JSON document
+  if (header >= 0x20 || header === 0x09 || header === 0x0a || header === 0x0d)
+    return deserialize(data.toString());
+
+  const body = data.subarray(1);
+  switch (header) {
+    case MSGPACK_HEADER:
+      return msgpackCodec.decode(body);
+    case GZIP_HEADER:
+      return decodeEntry(await gunzip(body), codec);
+    case BROTLI_HEADER:
+      return decodeEntry(await brotliDecompress(body), codec);
+  }
+  if (codec?.header === header) return codec.decode(body);
+  throw new Error(`Unknown cache entry format 0x${header.toString(16)}`);
+}
@@ -0,0 +1,62 @@
+export interface InvalidationEvent {
+  /** The invalidated parameters, with values as they appear in cache keys. */
+  params: Record<string, string>;
+  /** The invalidated tables, for table invalidations. */
+  tables?: string[];
+  /** The number of deleted cache entries. */
+  deleted: number;
+  /** Time of the invalidation in milliseconds since the epoch. */
+  timestamp: number;
+}
+
+export interface CacheEvent {
+  /** The cache key. */
+  key: string;
+  /** SHA1 hash of the query alone, the same for every parameter value. */
+  queryHash: string;
+  /** Time in milliseconds spent on the cache operation. */
+  duration: number;
+}
+
+export interface HitEvent extends CacheEvent {
+  /** Where the entry was found. */
+  source: 'local' | 'redis';
+  /** Size in bytes of the stored entry. */
+  size: number;
+}
+
+export interface WriteEvent extends CacheEvent {
+  /** Size in bytes of the stored entry. */
+  size: number;
+  /** Expiration time in seconds of the entry in Redis. */
+  ttl: number;
+}
+
+export interface ErrorEvent {
+  error: unknown;
+  /** The cache key, if the error concerns a single entry. */
+  key?: string;
+  /** The query hash, if the error concerns a single entry. */
+  queryHash?: string;
+}
+
+export interface ServerInvalidationEvent extends InvalidationEvent {
+  /** Time in milliseconds spent deleting the entries. */
+  duration: number;
+}
+
+export interface ClientEvents {
+  hit: [HitEvent];
+  miss: [CacheEvent];
+  write: [WriteEvent];
+  /** Errors are logged instead when there is no listener. */
+  error: [ErrorEvent];
+  /** Invalidations received while subscribed with onInvalidate. */
+  invalidation: [InvalidationEvent];
+}
+
+export interface ServerEvents {
+  invalidation: [ServerInvalidationEvent];
+  /** Errors are logged instead when there is no listener. */
+  error: [ErrorEvent];
+}
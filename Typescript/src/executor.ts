@@ -0,0 +1,57 @@
+/**
+ * Database access of the client, implemented by MySQLExecutor, PgExecutor and
+ * SQLiteExecutor. Queries return normalized rows for result sets and a
+ * StatementResult for other statements.
+ */
+export interface QueryExecutor {
+  /**
+   * Return the placeholder of a parameter in the driver's syntax, used when compiling
+   * `:name` placeholders.
+   * @param index - The position of the parameter, starting at 0.
+   */
+  placeholder(index: number): string;
+  /** Execute a query on any connection. */
+  query(sql: string, params?: any[]): Promise<any>;
+  /** Reserve a connection, for a transaction. */
+  getConnection(): Promise<ExecutorConnection>;
+  /** Close the connections once their queries are done. */
+  close?(): Promise<void>;
+}
+
+/**
+ * A connection reserved by a QueryExecutor, returned with `release`.
+ */
+export interface ExecutorConnection {
+  /** Execute a query on this connection. */
+  query(sql: string, params?: any[]): Promise<any>;
+  beginTransaction(): Promise<void>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  /** Return the connection to its pool. */
+  release(): void;
+}
+
+/**
+ * The outcome of a statement without a result set. MySQL returns its full result
+ * header, which has these fields and more.
+ */
+export interface StatementResult {
+  /** The number of rows inserted, updated or deleted. */
+  affectedRows: number;
+  /** The id of the last inserted row, if the driver reports it. */
+  insertId?: number | bigint;
+}
+
+/**
+ * Check whether a value is a query executor rather than a MySQL configuration.
+ * @param value - A query executor or a MySQL configuration.
+ * @returns - True for query executors.
+ */
+export function isQueryExecutor(value: unknown): value is QueryExecutor {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as QueryExecutor).query === 'function' &&
+    typeof (value as QueryExecutor).placeholder === 'function'
+  );
+}
@@ -0,0 +1,44 @@
+/**
+ * 'up' when everything responds, 'degraded' when the client still serves queries
+ * without the cache or a replica, 'down' otherwise.
+ */
+export type HealthStatus = 'up' | 'degraded' | 'down';
+
+export interface ComponentHealth {
+  status: 'up' | 'down';
+  /** Time in milliseconds the check took. */
+  latency: number;
+  /** The message of the error that failed the check. */
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  /** The cache store, checked with a round trip. */
+  cache: ComponentHealth;
+  /** The primary database, checked with `SELECT 1`. Only reported by the client. */
+  database?: ComponentHealth;
+  /** The read replicas, in configuration order. Only reported by the client. */
+  replicas?: ComponentHealth[];
+}
+
+/**
+ * Run a check and time it.
+ * @param check - The operation to run, failing if the component is unhealthy.
+ * @returns - The status and latency of the component.
+ */
+export async function checkComponent(
+  check: () => Promise<unknown>
+): Promise<ComponentHealth> {
+  const start = performance.now();
+  try {
+    await check();
+    return { status: 'up', latency: performance.now() - start };
+  } catch (err) {
+    return {
+      status: 'down',
+      latency: performance.now() - start,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
@@ -1,4 +1,84 @@
 import Client from './client.js';
 import Server from './server.js';
+import MetricsCollector from './metrics.js';
+import MemoryStore from './memory-store.js';
+import MySQLExecutor from './mysql-executor.js';
+import PgExecutor from './pg-executor.js';
+import SQLiteExecutor from './sqlite-executor.js';
+import RedisClusterStore from './redis-cluster-store.js';
+import RedisSentinelStore from './redis-sentinel-store.js';
+import RedisStore from './redis-store.js';
+import { buildCacheKey, parseCacheKey } from './keys.js';
+import { extractTables } from './tables.js';
 
-export { Client as MRCClient, Server as MRCServer };
+export {
+  Client as MRCClient,
+  Server as MRCServer,
+  MetricsCollector,
+  MemoryStore,
+  RedisStore,
+  RedisClusterStore,
+  RedisSentinelStore,
+  MySQLExecutor,
+  PgExecutor,
+  SQLiteExecutor,
+  buildCacheKey,
+  parseCacheKey,
+  extractTables,
+};
+export type {
+  BatchOptions,
+  CacheMode,
+  CacheOptions,
+  ClientOptions,
+  ExecuteOptions,
+  InvalidationHandler,
+  NamedQuery,
+  SingleFlightOptions,
+} from './client.js';
+export type { ServerOptions } from './server.js';
+export type { default as Transaction, PendingInvalidation } from './transaction.js';
+export type {
+  CacheEvent,
+  ClientEvents,
+  ErrorEvent,
+  HitEvent,
+  InvalidationEvent,
+  ServerEvents,
+  ServerInvalidationEvent,
+  WriteEvent,
+} from './events.js';
+export type { MetricsOptions } from './metrics.js';
+export type { ComponentHealth, HealthReport, HealthStatus } from './health.js';
+export type { MemoryStoreOptions } from './memory-store.js';
+export type { RedisConfig } from './redis-config.js';
+export type { Replica, ReplicaOptions } from './replicas.js';
+export type {
+  ExecutorConnection,
+  QueryExecutor,
+  StatementResult,
+} from './executor.js';
+export type {
+  PgExecutorOptions,
+  PgPool,
+  PgQueryable,
+  PgResult,
+} from './pg-executor.js';
+export type {
+  SQLiteDatabase,
+  SQLiteExecutorOptions,
+  SQLiteStatement,
+} from './sqlite-executor.js';
+export type {
+  CacheStore,
+  StoreEntry,
+  StoreErrorListener,
+  StoreGuard,
+  StoreSetEntry,
+} from './store.js';
+export type { RefreshAheadOptions, WarmOptions, WarmQuery } from './warming.js';
+export type { KeyFormat, ParsedCacheKey } from './keys.js';
+export type { Column, ColumnKind, NormalizeOptions } from './normalize.js';
+export type { Codec, Compression, CompressionOptions } from './codecs.js';
+export type { LocalCacheOptions } from './lru.js';
+export type { ResilienceOptions } from './resilience.js';
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+
+/**
+ * Prefix of the keys written by the library.
+ */
+export const INTERNAL_PREFIX = 'mrc:';
+
+/**
+ * Prefix of the cache entries in the current key format.
+ */
+export const KEY_PREFIX = INTERNAL_PREFIX + 'v2:';
+
+/**
+ * Prefix of the single-flight fill locks.
+ */
+export const LOCK_PREFIX = INTERNAL_PREFIX + 'lock:';
+
+/**
+ * Prefix of the per-parameter index sets.
+ */
+export const INDEX_PREFIX = INTERNAL_PREFIX + 'idx:';
+
+/**
+ * Prefix of the per-table dependency sets.
+ */
+export const TABLE_PREFIX = INTERNAL_PREFIX + 'tbl:';
+
+/**
+ * Prefix of the generation counters incremented by invalidations.
+ */
+export const GENERATION_PREFIX = INTERNAL_PREFIX + 'gen:';
+
+/**
+ * Pub/sub channel the server publishes invalidations on.
+ */
+export const INVALIDATION_CHANNEL = INTERNAL_PREFIX + 'invalidations';
+
+/**
+ * Format of the cache keys.
+ * - `v2`: `mrc:v2:{name}={value}:...:{sha1}` with URI-encoded names and values,
+ *   the hash covers the query and every parameter value.
+ * - `legacy`: `{name}={value}_..._{sha1}` as written by version 4 and earlier,
+ *   the hash covers the query only.
+ */
+export type KeyFormat = 'v2' | 'legacy';
+
+export interface ParsedCacheKey {
+  format: KeyFormat;
+  /** The named parameters in key order, with decoded names and values. */
+  params: [string, string][];
+  hash: string;
+}
+
+const HASH_PATTERN = /^[0-9a-f]{40}$/;
+
+/**
+ * Format a number for cache keys: integers with all their digits, like bigints and
+ * Python integers, other numbers like `String`. Matches the Python implementation.
+ * @param value - A number.
+ * @returns - The formatted number, e.g. `1000000000000000000000` for 1e21 and `1e-7`.
+ */
+export function formatNumber(value: number): string {
+  if (Number.isInteger(value) && !Number.isSafeInteger(value))
+    return BigInt(value).toString();
+  return String(value);
+}
+
+/**
+ * Convert a parameter value to the string stored in cache keys.
+ * Matches the Python implementation for null, booleans, numbers, strings and dates.
+ * @param value - A query parameter value.
+ * @returns - The string representation of the value.
+ */
+export function stringifyParamValue(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return formatNumber(value);
+  return String(value);
+}
+
+/**
+ * Build a cache key from the query hash and the named parameters.
+ * @param hash - The SHA1 hash identifying the query.
+ * @param params - The parameters for the query.
+ * @param paramNames - The names of the query parameters.
+ * @param format - The key format to produce. Default is `v2`.
+ * @returns - The cache key.
+ */
+export function buildCacheKey(
+  hash: string,
+  params?: any[],
+  paramNames: string[] = [],
+  format: KeyFormat = 'v2'
+): string {
+  const named = params && params.length > 0 ? paramNames : [];
+  if (format === 'legacy') {
+    let key = '';
+    named.forEach((name, i) => {
+      key += name + '=' + params![i] + '_';
+    });
+    return key + hash;
+  }
+  let key = KEY_PREFIX;
+  named.forEach((name, i) => {
+    key +=
+      encodeURIComponent(name) +
+      '=' +
+      encodeURIComponent(stringifyParamValue(params![i])) +
+      ':';
+  });
+  return key + hash;
+}
+
+/**
+ * Parse a cache key in either format.
+ * Legacy keys are ambiguous when values contain `_`: segments without `=` are
+ * appended to the previous value.
+ * @param key - A Redis key.
+ * @returns - The parsed key, or undefined if the key is not a cache entry.
+ */
+export function parseCacheKey(key: string): ParsedCacheKey | undefined {
+  if (key.startsWith(KEY_PREFIX)) {
+    const parts = key.slice(KEY_PREFIX.length).split(':');
+    const hash = parts.pop()!;
+    if (!HASH_PATTERN.test(hash)) return undefined;
+    const params: [string, string][] = [];
+    for (const part of parts) {
+      const [name, value, ...rest] = part.split('=');
+      if (value === undefined || rest.length > 0) return undefined;
+      try {
+        params.push([decodeURIComponent(name), decodeURIComponent(value)]);
+      } catch {
+        return undefined;
+      }
+    }
+    return { format: 'v2', params, hash };
+  }
+  if (key.startsWith(INTERNAL_PREFIX)) return undefined;
+
+  const parts = key.split('_');
+  const hash = parts.pop()!;
+  if (!HASH_PATTERN.test(hash)) return undefined;
+  const params: [string, string][] = [];
+  for (const part of parts) {
+    const eq = part.indexOf('=');
+    if (eq === -1) {
+      if (params.length === 0) return undefined;
+      params[params.length - 1][1] += '_' + part;
+    } else {
+      params.push([part.slice(0, eq), part.slice(eq + 1)]);
+    }
+  }
+  return { format: 'legacy', params, hash };
+}
+
+/**
+ * Check whether a parsed key has every given parameter with exactly the given value.
+ * @param parsed - A parsed cache key.
+ * @param keyNames - The names of the parameters.
+ * @param keyValues - The values of the parameters.
+ * @returns - True if all parameters match.
+ */
+export function matchesCacheKey(
+  parsed: ParsedCacheKey,
+  keyNames: string[],
+  keyValues: any[]
+): boolean {
+  return keyNames.every((name, i) => {
+    const value = stringifyParamValue(keyValues[i]);
+    return parsed.params.some(([n, v]) => n === name && v === value);
+  });
+}
+
+/**
+ * Encode parameter values as canonical JSON: object keys are sorted, dates, buffers
+ * and bigints have a fixed representation. Matches the Python implementation.
+ * @param value - A parameter value or array of values.
+ * @returns - The canonical encoding.
+ */
+export function canonicalizeParams(value: any): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date)
+    return '{"$date":' + JSON.stringify(value.toISOString()) + '}';
+  if (value instanceof Uint8Array)
+    return '{"$bytes":"' + Buffer.from(value).toString('base64') + '"}';
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value))
+    return '[' + value.map(canonicalizeParams).join(',') + ']';
+  if (typeof value === 'object') {
+    const fields = Object.keys(value)
+      .sort()
+      .map(k => JSON.stringify(k) + ':' + canonicalizeParams(value[k]));
+    return '{' + fields.join(',') + '}';
+  }
+  // non-finite numbers become null like in JSON.stringify
+  if (typeof value === 'number')
+    return Number.isFinite(value) ? formatNumber(value) : 'null';
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Return the SHA1 hash identifying a query and all its parameter values.
+ * @param query - A MySQL query.
+ * @param params - The parameters for the query.
+ * @returns - The hex digest.
+ */
+export function hashQuery(query: string, params?: any[]): string {
+  const hash = crypto.createHash('sha1').update(query);
+  if (params && params.length > 0)
+    hash.update('\0' + canonicalizeParams(params));
+  return hash.digest('hex');
+}
+
+/**
+ * Return the key of the set listing the cache entries for a parameter value.
+ * @param name - The name of the parameter.
+ * @param value - The value of the parameter.
+ * @returns - The key of the index set.
+ */
+export function getIndexKey(name: string, value: any): string {
+  return (
+    INDEX_PREFIX +
+    encodeURIComponent(name) +
+    '=' +
+    encodeURIComponent(stringifyParamValue(value))
+  );
+}
+
+/**
+ * Return the key of the set listing the cache entries that depend on a table.
+ * @param table - The name of the table, compared case-insensitively.
+ * @returns - The key of the dependency set.
+ */
+export function getTableKey(table: string): string {
+  return TABLE_PREFIX + encodeURIComponent(table.toLowerCase());
+}
+
+/**
+ * Return the key of the generation counter of a parameter value or table.
+ * @param setKey - The key of the index or table set.
+ * @returns - The key of the counter, e.g. `mrc:gen:idx:StoreId=6`.
+ */
+export function getGenerationKey(setKey: string): string {
+  return GENERATION_PREFIX + setKey.slice(INTERNAL_PREFIX.length);
+}
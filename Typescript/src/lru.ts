@@ -0,0 +1,106 @@
+export interface LocalCacheOptions {
+  /** Maximum number of entries kept in memory. Default is 1000. */
+  maxEntries?: number;
+  /** Maximum total size in bytes of the entries kept in memory. Default is unbounded. */
+  maxBytes?: number;
+  /** Expiration time in seconds of the in-memory entries, capped by the Redis ttl. Default is 5 seconds. */
+  ttl?: number;
+}
+
+interface Entry {
+  value: Buffer | string;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * Bounded in-memory cache of encoded entries, evicting the least recently used first.
+ */
+export default class LRUCache {
+  maxEntries: number;
+  maxBytes: number;
+  ttl: number;
+  private entries = new Map<string, Entry>();
+  private bytes = 0;
+
+  /**
+   * @param options - Optional size and expiration limits.
+   */
+  constructor(options: LocalCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 1000;
+    this.maxBytes = options.maxBytes ?? Infinity;
+    this.ttl = options.ttl ?? 5;
+  }
+
+  /**
+   * Number of entries currently held, including expired ones not yet evicted.
+   */
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * Return the keys of the entries, least recently used first.
+   */
+  keys() {
+    return this.entries.keys();
+  }
+
+  /**
+   * Return an entry and mark it as most recently used.
+   * @param key - The cache key.
+   * @returns - The encoded entry, undefined if missing or expired.
+   */
+  get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key);
+      return undefined;
+    }
+    // reinsert to move the entry to the end of the iteration order
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Store an entry, evicting the least recently used ones beyond the limits.
+   * @param key - The cache key.
+   * @param value - The encoded entry.
+   * @param maxTtl - Optional upper bound in milliseconds of the entry lifetime.
+   */
+  set(key: string, value: Buffer | string, maxTtl?: number) {
+    this.delete(key);
+    const ttl = Math.min(this.ttl * 1000, maxTtl ?? Infinity);
+    const size = Buffer.byteLength(value) + Buffer.byteLength(key);
+    if (ttl <= 0 || size > this.maxBytes || this.maxEntries <= 0) return;
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + ttl });
+    this.bytes += size;
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes)
+        break;
+      this.delete(oldest);
+    }
+  }
+
+  /**
+   * Remove an entry.
+   * @param key - The cache key.
+   */
+  delete(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.bytes -= entry.size;
+  }
+
+  /**
+   * Remove every entry.
+   */
+  clear() {
+    this.entries.clear();
+    this.bytes = 0;
+  }
+}
@@ -0,0 +1,296 @@
+import type {
+  CacheStore,
+  StoreEntry,
+  StoreGuard,
+  StoreSetEntry,
+} from './store.js';
+
+export interface MemoryStoreOptions {
+  /** Clock returning the current time in milliseconds. Default is `Date.now`. */
+  now?: () => number;
+}
+
+interface Item {
+  value: Buffer | Set<string>;
+  /** Expiration time in milliseconds, Infinity if the item does not expire. */
+  expiresAt: number;
+}
+
+/**
+ * Cache store in process memory with the same expiration semantics as Redis, for tests
+ * and single-process tools. Time can be moved forward with `advance` to simulate expiry.
+ * Stores shared by several clients and servers also share their subscriptions.
+ */
+export default class MemoryStore implements CacheStore {
+  private items = new Map<string, Item>();
+  private channels = new Map<string, Set<(message: string) => void>>();
+  private now: () => number;
+  private offset = 0;
+  private open = true;
+
+  /**
+   * @param options - Optional clock.
+   */
+  constructor(options: MemoryStoreOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  get isOpen() {
+    return this.open;
+  }
+
+  get isReady() {
+    return this.open;
+  }
+
+  /**
+   * Number of keys, including expired ones not yet evicted.
+   */
+  get size() {
+    return this.items.size;
+  }
+
+  /**
+   * Move the clock of the store forward, expiring the keys whose ttl has passed.
+   * @param ms - Time in milliseconds.
+   */
+  advance(ms: number) {
+    this.offset += ms;
+  }
+
+  /**
+   * Delete every key.
+   */
+  flush() {
+    this.items.clear();
+  }
+
+  async connect() {
+    this.open = true;
+  }
+
+  /**
+   * Stop serving requests and drop the subscriptions. Keys are kept, like on a
+   * Redis server, until the store is garbage collected.
+   */
+  async close() {
+    this.open = false;
+    this.channels.clear();
+  }
+
+  async get(key: string) {
+    return this._bytes(key) ?? null;
+  }
+
+  async getMany(keys: string[]) {
+    return keys.map(key => this._bytes(key) ?? null);
+  }
+
+  async ttl(key: string) {
+    const item = this._item(key);
+    if (!item) return -2;
+    if (item.expiresAt === Infinity) return -1;
+    return item.expiresAt - this._time();
+  }
+
+  async set(key: string, value: Buffer | string, ttl: number, guard?: StoreGuard) {
+    if (guard && guard.keys.some((k, i) => this._counter(k) !== guard.values[i]))
+      return false;
+    this._put(key, Buffer.from(value), ttl * 1000);
+    return true;
+  }
+
+  async setMany(entries: StoreEntry[]) {
+    const stored: boolean[] = [];
+    for (const { key, value, ttl, guard } of entries)
+      stored.push(await this.set(key, value, ttl, guard));
+    return stored;
+  }
+
+  async delete(key: string) {
+    return this._item(key) && this.items.delete(key) ? 1 : 0;
+  }
+
+  async deleteMany(keys: string[], sets: string[] = []) {
+    let deleted = 0;
+    for (const key of keys) deleted += await this.delete(key);
+    for (const set of sets) await this.removeFromSet(set, keys);
+    return deleted;
+  }
+
+  async exists(keys: string[]) {
+    return keys.map(key => this._item(key) !== undefined);
+  }
+
+  /**
+   * Return every matching key at once, the cursor is ignored.
+   */
+  async scan(_cursor: string, match?: string) {
+    const pattern = match ? globToRegExp(match) : undefined;
+    const keys = [...this.items.keys()].filter(
+      key => this._item(key) && (!pattern || pattern.test(key))
+    );
+    return { cursor: '0', keys };
+  }
+
+  async lock(key: string, token: string, ttl: number) {
+    if (this._item(key)) return false;
+    this._put(key, Buffer.from(token), ttl);
+    return true;
+  }
+
+  async unlock(key: string, token: string) {
+    if (this._bytes(key)?.toString() === token) this.items.delete(key);
+  }
+
+  async addToSets(entries: StoreSetEntry[]) {
+    for (const { member, sets, ttl } of entries)
+      for (const set of sets) {
+        const expiresAt = this._time() + ttl * 1000;
+        const item = this._item(set);
+        if (!item) {
+          this.items.set(set, { value: new Set([member]), expiresAt });
+          continue;
+        }
+        this._members(set).add(member);
+        item.expiresAt = Math.max(item.expiresAt, expiresAt);
+      }
+  }
+
+  async members(set: string) {
+    return [...this._members(set)];
+  }
+
+  async intersect(sets: string[]) {
+    const [first, ...rest] = sets.map(set => this._members(set));
+    if (!first) return [];
+    return [...first].filter(member => rest.every(other => other.has(member)));
+  }
+
+  async removeFromSet(set: string, members: string[]) {
+    const item = this._item(set);
+    if (!item) return 0;
+    const values = this._members(set);
+    const removed = members.filter(member => values.delete(member)).length;
+    // like Redis, empty sets do not exist
+    if (values.size === 0) this.items.delete(set);
+    return removed;
+  }
+
+  async increment(keys: string[], ttl: number) {
+    for (const key of keys) {
+      const value = Number(this._counter(key)) + 1;
+      this._put(key, Buffer.from(String(value)), ttl * 1000);
+    }
+  }
+
+  async ping() {
+    this._assertOpen();
+  }
+
+  async publish(channel: string, message: string) {
+    this._assertOpen();
+    // deliver asynchronously like a Redis subscription
+    for (const listener of this.channels.get(channel) ?? [])
+      queueMicrotask(() => listener(message));
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    this._assertOpen();
+    let listeners = this.channels.get(channel);
+    if (!listeners) this.channels.set(channel, (listeners = new Set()));
+    listeners.add(listener);
+  }
+
+  async unsubscribe(channel: string, listener: (message: string) => void) {
+    this.channels.get(channel)?.delete(listener);
+  }
+
+  /**
+   * Current time of the store in milliseconds.
+   */
+  private _time() {
+    return this.now() + this.offset;
+  }
+
+  /**
+   * Throw if the store is closed, like a closed Redis client.
+   */
+  private _assertOpen() {
+    if (!this.open) throw new Error('Memory store is closed');
+  }
+
+  /**
+   * Return a live item, evicting it if it has expired.
+   */
+  private _item(key: string) {
+    this._assertOpen();
+    const item = this.items.get(key);
+    if (item && item.expiresAt <= this._time()) {
+      this.items.delete(key);
+      return undefined;
+    }
+    return item;
+  }
+
+  /**
+   * Return the value of a string key.
+   */
+  private _bytes(key: string) {
+    const item = this._item(key);
+    if (item && !Buffer.isBuffer(item.value)) throw wrongType();
+    return item?.value as Buffer | undefined;
+  }
+
+  /**
+   * Return the members of a set key, empty if it does not exist.
+   */
+  private _members(set: string) {
+    const item = this._item(set);
+    if (item && Buffer.isBuffer(item.value)) throw wrongType();
+    return (item?.value as Set<string> | undefined) ?? new Set<string>();
+  }
+
+  /**
+   * Return the value of a counter, '0' if it does not exist.
+   */
+  private _counter(key: string) {
+    return this._bytes(key)?.toString() ?? '0';
+  }
+
+  /**
+   * Set a string key expiring after `ttl` milliseconds.
+   */
+  private _put(key: string, value: Buffer, ttl: number) {
+    this.items.set(key, { value, expiresAt: this._time() + ttl });
+  }
+}
+
+/**
+ * Return the error of an operation on a key of another type.
+ */
+function wrongType() {
+  return new Error('WRONGTYPE Operation against a key holding the wrong kind of value');
+}
+
+/**
+ * Convert a Redis glob pattern with `*`, `?` and `[...]` to a regular expression.
+ */
+function globToRegExp(glob: string) {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') source += '.*';
+    else if (char === '?') source += '.';
+    else if (char === '\\' && i + 1 < glob.length) source += '\\' + glob[++i];
+    else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end < 0) source += '\\[';
+      else {
+        source += '[' + glob.slice(i + 1, end) + ']';
+        i = end;
+      }
+    } else source += char.replace(/[.+^${}()|\\]/g, '\\$&');
+  }
+  return new RegExp('^' + source + '$', 's');
+}
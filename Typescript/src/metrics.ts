@@ -0,0 +1,179 @@
+import type { EventEmitter } from 'events';
+import type Client from './client.js';
+import type {
+  CacheEvent,
+  HitEvent,
+  ServerInvalidationEvent,
+  WriteEvent,
+} from './events.js';
+import type Server from './server.js';
+
+export interface MetricsOptions {
+  /** Upper bounds in seconds of the duration histogram buckets. */
+  buckets?: number[];
+}
+
+type Labels = Record<string, string>;
+
+interface Histogram {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+const COUNTERS: Record<string, string> = {
+  mrc_cache_hits_total: 'Cache lookups that found the entry.',
+  mrc_cache_misses_total: 'Cache lookups that did not find the entry.',
+  mrc_cache_writes_total: 'Entries written to the cache.',
+  mrc_cache_written_bytes_total: 'Size in bytes of the entries written to the cache.',
+  mrc_cache_errors_total: 'Errors of cache operations.',
+  mrc_cache_invalidations_total: 'Invalidations by parameter values.',
+  mrc_cache_invalidated_entries_total: 'Entries deleted by invalidations.',
+};
+
+const DURATION = 'mrc_cache_operation_duration_seconds';
+
+/**
+ * Format labels as a Prometheus label set.
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => {
+    const escaped = value
+      .replace(/\\/g, '\\\\')
+      .replace(/"/g, '\\"')
+      .replace(/\n/g, '\\n');
+    return `${name}="${escaped}"`;
+  });
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Count the events of clients and servers and export them in the Prometheus text
+ * format. Hits, misses and writes are labelled with the query hash, so the hit ratio
+ * can be computed per query.
+ */
+export default class MetricsCollector {
+  buckets: number[];
+  private counters = new Map<string, Map<string, number>>();
+  private histograms = new Map<string, Histogram>();
+
+  /**
+   * @param options - Optional histogram buckets.
+   */
+  constructor(options: MetricsOptions = {}) {
+    const buckets = options.buckets ?? [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1, 5];
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Collect the events of a client or server. Listening to error events means the
+   * source no longer logs its errors.
+   * @param source - The client or server to observe.
+   * @returns - A function that stops collecting its events.
+   */
+  attach(source: Client | Server): () => void {
+    const emitter = source as unknown as EventEmitter;
+    const listeners: Record<string, (event: any) => void> = {
+      hit: (event: HitEvent) => {
+        this._count('mrc_cache_hits_total', {
+          query: event.queryHash,
+          source: event.source,
+        });
+        this._observe({ operation: 'hit' }, event.duration);
+      },
+      miss: (event: CacheEvent) => {
+        this._count('mrc_cache_misses_total', { query: event.queryHash });
+        this._observe({ operation: 'miss' }, event.duration);
+      },
+      write: (event: WriteEvent) => {
+        const labels = { query: event.queryHash };
+        this._count('mrc_cache_writes_total', labels);
+        this._count('mrc_cache_written_bytes_total', labels, event.size);
+        this._observe({ operation: 'write' }, event.duration);
+      },
+      error: () => this._count('mrc_cache_errors_total', {}),
+      invalidation: (event: ServerInvalidationEvent) => {
+        // clients receive invalidations without timing, only servers count them
+        if (event.duration === undefined) return;
+        this._count('mrc_cache_invalidations_total', {});
+        this._count('mrc_cache_invalidated_entries_total', {}, event.deleted);
+        this._observe({ operation: 'invalidation' }, event.duration);
+      },
+    };
+    for (const [name, listener] of Object.entries(listeners))
+      emitter.on(name, listener);
+    return () => {
+      for (const [name, listener] of Object.entries(listeners))
+        emitter.off(name, listener);
+    };
+  }
+
+  /**
+   * Forget every collected value.
+   */
+  reset() {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  /**
+   * Export the collected values in the Prometheus text exposition format.
+   * @returns - The metrics text.
+   */
+  toPrometheus(): string {
+    const lines: string[] = [];
+    for (const [name, help] of Object.entries(COUNTERS)) {
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+      for (const [labels, value] of this.counters.get(name) ?? [])
+        lines.push(`${name}${labels} ${value}`);
+    }
+
+    lines.push(
+      `# HELP ${DURATION} Duration of cache operations.`,
+      `# TYPE ${DURATION} histogram`
+    );
+    for (const [key, histogram] of this.histograms) {
+      const labels: Labels = JSON.parse(key);
+      let cumulative = 0;
+      this.buckets.forEach((le, i) => {
+        cumulative += histogram.counts[i];
+        const bucket = formatLabels({ ...labels, le: String(le) });
+        lines.push(`${DURATION}_bucket${bucket} ${cumulative}`);
+      });
+      const inf = formatLabels({ ...labels, le: '+Inf' });
+      lines.push(
+        `${DURATION}_bucket${inf} ${histogram.count}`,
+        `${DURATION}_sum${formatLabels(labels)} ${histogram.sum}`,
+        `${DURATION}_count${formatLabels(labels)} ${histogram.count}`
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Increase a counter.
+   */
+  private _count(name: string, labels: Labels, value = 1) {
+    let series = this.counters.get(name);
+    if (!series) this.counters.set(name, (series = new Map()));
+    const key = formatLabels(labels);
+    series.set(key, (series.get(key) ?? 0) + value);
+  }
+
+  /**
+   * Record a duration in milliseconds in the histogram.
+   */
+  private _observe(labels: Labels, duration: number) {
+    const key = JSON.stringify(labels);
+    let histogram = this.histograms.get(key);
+    if (!histogram) {
+      histogram = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.histograms.set(key, histogram);
+    }
+    const seconds = duration / 1000;
+    const bucket = this.buckets.findIndex(le => seconds <= le);
+    if (bucket >= 0) histogram.counts[bucket]++;
+    histogram.sum += seconds;
+    histogram.count++;
+  }
+}
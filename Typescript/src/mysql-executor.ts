@@ -0,0 +1,124 @@
+import {
+  createPool,
+  Pool,
+  PoolConnection,
+  PoolOptions,
+  QueryOptions,
+} from 'mysql2/promise';
+import type { ExecutorConnection, QueryExecutor } from './executor.js';
+import { normalizeRows, NormalizeOptions } from './normalize.js';
+
+/**
+ * Query executor on a mysql2 pool, created on first use. BIGINT and DECIMAL values
+ * are fetched as strings and converted by the normalize policy, unless the pool
+ * configuration sets `supportBigNumbers` or `bigNumberStrings` itself. JSON values
+ * are fetched as text and parsed by the normalize policy.
+ */
+export default class MySQLExecutor implements QueryExecutor {
+  config: PoolOptions | string;
+  pool: Pool | undefined;
+  private normalize: NormalizeOptions | undefined;
+  private queryOptions: Pick<
+    PoolOptions,
+    'supportBigNumbers' | 'bigNumberStrings' | 'typeCast'
+  >;
+
+  /**
+   * @param config - Configuration for a MySQL connection.
+   * @param normalize - How values of specific column types are returned.
+   */
+  constructor(config: PoolOptions | string, normalize?: NormalizeOptions) {
+    this.config = config;
+    this.normalize = normalize;
+    this.queryOptions = { typeCast: readJsonText(config) };
+    for (const option of ['supportBigNumbers', 'bigNumberStrings'] as const)
+      if (!isConfigured(config, option)) this.queryOptions[option] = true;
+  }
+
+  placeholder() {
+    return '?';
+  }
+
+  /**
+   * Return the pool, creating it on first use.
+   */
+  getPool() {
+    this.pool ??= createPool(this.config as any);
+    return this.pool;
+  }
+
+  query(sql: string, params?: any[]): Promise<any> {
+    return this._query(this.getPool(), sql, params);
+  }
+
+  /**
+   * End the pool once its queries are done. The next query creates a new pool.
+   */
+  async close() {
+    const pool = this.pool;
+    this.pool = undefined;
+    await pool?.end();
+  }
+
+  async getConnection(): Promise<ExecutorConnection> {
+    const connection = await this.getPool().getConnection();
+    return {
+      query: (sql, params) => this._query(connection, sql, params),
+      beginTransaction: () => connection.beginTransaction(),
+      commit: () => connection.commit(),
+      rollback: () => connection.rollback(),
+      release: () => connection.release(),
+    };
+  }
+
+  /**
+   * Execute a query and normalize its rows based on the column types.
+   */
+  private async _query(
+    queryable: Pool | PoolConnection,
+    sql: string,
+    params?: any[]
+  ) {
+    // BIGINT values are fetched as strings and converted by the normalize policy
+    const [rows, fields] = await queryable.query({
+      sql,
+      values: params,
+      ...this.queryOptions,
+    } as QueryOptions);
+
+    // statements without a result set return a header without fields
+    if (!Array.isArray(rows) || !fields) return rows;
+    // multiple statements return one result set per statement
+    if (Array.isArray(fields[0]))
+      return (rows as any[]).map((r, i) =>
+        Array.isArray(r) ? normalizeRows(r, (fields as any)[i], this.normalize) : r
+      );
+    return normalizeRows(rows, fields, this.normalize);
+  }
+}
+
+/**
+ * Check whether a pool configuration sets an option, as a property or a URI parameter.
+ */
+function isConfigured(config: PoolOptions | string, option: keyof PoolOptions) {
+  if (typeof config !== 'string') return config[option] !== undefined;
+  try {
+    return new URL(config).searchParams.has(option);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Return a type cast reading JSON columns as text, which mysql2 parses otherwise. Its
+ * `jsonStrings` option only applies from the pool configuration, not per query.
+ */
+function readJsonText(config: PoolOptions | string): QueryOptions['typeCast'] {
+  const cast = typeof config === 'string' ? undefined : config.typeCast;
+  // without a type cast every column is returned as a buffer
+  if (cast === false) return false;
+  return (field, next) => {
+    if (field.type === 'JSON') return field.string('utf8');
+    return typeof cast === 'function' ? cast(field, next) : next();
+  };
+}
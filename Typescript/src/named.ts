@@ -0,0 +1,96 @@
+/**
+ * Translation of `:name` placeholders to positional `?` or `$1` placeholders.
+ */
+
+export interface CompiledQuery {
+  /** The query with positional placeholders. */
+  sql: string;
+  /** The value of each placeholder, in order. */
+  values: any[];
+  /** The names of the placeholders, without repetitions, in order of appearance. */
+  names: string[];
+}
+
+const NAME_START = /[A-Za-z_]/;
+const NAME_PART = /[A-Za-z0-9_]/;
+
+/**
+ * Return the index after the end of a quoted string or identifier.
+ */
+function skipQuoted(sql: string, start: number): number {
+  const quote = sql[start];
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === '\\' && quote !== '`') i += 2;
+    else if (sql[i] === quote && sql[i + 1] === quote) i += 2;
+    else if (sql[i] === quote) return i + 1;
+    else i++;
+  }
+  return i;
+}
+
+/**
+ * Return the index after the end of a comment, or the start if there is none.
+ */
+function skipComment(sql: string, start: number): number {
+  const two = sql.slice(start, start + 2);
+  if (two === '/*') {
+    const end = sql.indexOf('*/', start + 2);
+    return end < 0 ? sql.length : end + 2;
+  }
+  if (sql[start] === '#' || (two === '--' && /\s/.test(sql[start + 2] ?? ' '))) {
+    const end = sql.indexOf('\n', start);
+    return end < 0 ? sql.length : end + 1;
+  }
+  return start;
+}
+
+/**
+ * Replace the `:name` placeholders of a query with `?`, skipping string literals,
+ * quoted identifiers, comments and `::`.
+ * @param sql - A query with named placeholders.
+ * @param params - The values of the placeholders, by name.
+ * @param placeholder - The positional placeholder of the value at an index, `?` by default.
+ * @returns - The query with positional placeholders and their values.
+ */
+export function compileNamedQuery(
+  sql: string,
+  params: Record<string, any> = {},
+  placeholder: (index: number) => string = () => '?'
+): CompiledQuery {
+  let out = '';
+  const values: any[] = [];
+  const names: string[] = [];
+  let i = 0;
+  while (i < sql.length) {
+    const char = sql[i];
+    let end = i;
+    if (char === "'" || char === '"' || char === '`') end = skipQuoted(sql, i);
+    else end = skipComment(sql, i);
+    if (end > i) {
+      out += sql.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (char === ':' && sql[i + 1] === ':') {
+      out += '::';
+      i += 2;
+      continue;
+    }
+    if (char === ':' && NAME_START.test(sql[i + 1] ?? '')) {
+      end = i + 2;
+      while (end < sql.length && NAME_PART.test(sql[end])) end++;
+      const name = sql.slice(i + 1, end);
+      if (!(name in params)) throw new Error(`Missing value for parameter :${name}`);
+      out += placeholder(values.length);
+      values.push(params[name]);
+      if (!names.includes(name)) names.push(name);
+      i = end;
+      continue;
+    }
+    out += char;
+    i++;
+  }
+  return { sql: out, values, names };
+}
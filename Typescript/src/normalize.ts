@@ -0,0 +1,162 @@
+import { FieldPacket } from 'mysql2/promise';
+
+/**
+ * How values of specific column types are returned.
+ */
+export interface NormalizeOptions {
+  /**
+   * DECIMAL and NUMERIC columns: `string` (default) to keep every digit, `number`, or
+   * `safe` to return a number when no digits are lost and a string otherwise, so the
+   * values of a column can mix both types.
+   */
+  decimal?: 'number' | 'string' | 'safe';
+  /**
+   * BIGINT columns: `string` (default), `number`, `bigint`, or `safe` to return a
+   * number for safe integers and a string otherwise, so the values of a column can
+   * mix both types.
+   */
+  bigint?: 'number' | 'string' | 'bigint' | 'safe';
+  /** MySQL TINYINT(1) columns: `number` (default) or `boolean`. */
+  tinyint1?: 'number' | 'boolean';
+  /** JSON columns: `parse` (default) or `string`. */
+  json?: 'parse' | 'string';
+}
+
+// MySQL column type codes, as reported in the field metadata
+const DECIMAL = 0x00;
+const TINY = 0x01;
+const LONGLONG = 0x08;
+const JSON_TYPE = 0xf5;
+const NEWDECIMAL = 0xf6;
+
+/**
+ * The column types normalized by a policy, whatever the driver.
+ */
+export type ColumnKind = 'decimal' | 'bigint' | 'tinyint1' | 'json';
+
+export interface Column {
+  name: string;
+  /** The type of the column, undefined if its values are kept as is. */
+  kind?: ColumnKind;
+  /** Whether the driver already parsed the values of a JSON column. */
+  parsed?: boolean;
+}
+
+type Converter = (value: any) => any;
+
+/**
+ * Return the kind of a MySQL column from its metadata.
+ */
+function mysqlKind(field: FieldPacket): ColumnKind | undefined {
+  switch (field.type ?? field.columnType) {
+    case DECIMAL:
+    case NEWDECIMAL:
+      return 'decimal';
+    case LONGLONG:
+      return 'bigint';
+    case TINY:
+      return field.columnLength === 1 ? 'tinyint1' : undefined;
+    case JSON_TYPE:
+      return 'json';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Return the conversion applied to a column, or undefined if values are kept as is.
+ */
+function converterFor(
+  column: Column,
+  options: NormalizeOptions
+): Converter | undefined {
+  switch (column.kind) {
+    case 'decimal':
+      if (options.decimal === 'number') return v => Number(v);
+      if (options.decimal === 'safe')
+        return v => {
+          const n = Number(v);
+          return fitsNumber(n, String(v)) ? n : String(v);
+        };
+      return v => String(v);
+    case 'bigint':
+      if (options.bigint === 'number') return v => Number(v);
+      if (options.bigint === 'bigint') return v => BigInt(v);
+      if (options.bigint === 'safe')
+        return v => {
+          const n = Number(v);
+          return Number.isSafeInteger(n) ? n : String(v);
+        };
+      return v => String(v);
+    case 'tinyint1':
+      if (options.tinyint1 === 'boolean') return v => Boolean(Number(v));
+      return undefined;
+    case 'json':
+      if (column.parsed)
+        return options.json === 'string' ? v => JSON.stringify(v) : undefined;
+      // the driver returns the JSON text, a string value is quoted in it
+      if (options.json === 'string') return v => String(v);
+      return v => JSON.parse(String(v));
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check whether a decimal string survives conversion to a number without losing digits.
+ */
+function fitsNumber(n: number, decimal: string): boolean {
+  if (!isFinite(n)) return false;
+  const [int, frac = ''] = decimal.replace(/^-/, '').split('.');
+  const digits = (int.replace(/^0+/, '') + frac.replace(/0+$/, '')).length;
+  return digits <= 15 || Number.isSafeInteger(n);
+}
+
+/**
+ * Normalize query rows using the column metadata returned by mysql2.
+ * @param rows - The rows of a result set.
+ * @param fields - The column metadata of the result set.
+ * @param options - The conversion policy per column type.
+ * @returns - The normalized rows.
+ */
+export function normalizeRows(
+  rows: any[],
+  fields: FieldPacket[],
+  options: NormalizeOptions = {}
+): any[] {
+  const columns = fields.map(field => ({ name: field.name, kind: mysqlKind(field) }));
+  return normalizeColumns(rows, columns, options);
+}
+
+/**
+ * Normalize query rows using the column types found by a driver adapter.
+ * @param rows - The rows of a result set, objects or arrays.
+ * @param columns - The name and type of each column, in order.
+ * @param options - The conversion policy per column type.
+ * @returns - The normalized rows.
+ */
+export function normalizeColumns(
+  rows: any[],
+  columns: Column[],
+  options: NormalizeOptions = {}
+): any[] {
+  const converters: [string | number, Converter][] = [];
+  columns.forEach((column, i) => {
+    const convert = converterFor(column, options);
+    if (convert) converters.push([column.name, convert], [i, convert]);
+  });
+  if (converters.length === 0) return rows;
+
+  return rows.map(row => {
+    // rows are arrays with the rowsAsArray option
+    const byIndex = Array.isArray(row);
+    const normalized = byIndex ? [...row] : { ...row };
+    for (const [column, convert] of converters) {
+      if (typeof column === 'number' !== byIndex) continue;
+      const value = normalized[column];
+      if (value !== null && value !== undefined)
+        normalized[column] = convert(value);
+    }
+    return normalized;
+  });
+}
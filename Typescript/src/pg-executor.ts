@@ -0,0 +1,133 @@
+import type {
+  ExecutorConnection,
+  QueryExecutor,
+  StatementResult,
+} from './executor.js';
+import { ColumnKind, normalizeColumns, NormalizeOptions } from './normalize.js';
+
+/**
+ * The parts of a `pg` query result used by the executor.
+ */
+export interface PgResult {
+  rowCount: number | null;
+  rows: any[];
+  fields: { name: string; dataTypeID: number }[];
+}
+
+/**
+ * The parts of a `pg` client used by the executor.
+ */
+export interface PgQueryable {
+  query(config: { text: string; values?: any[] }): Promise<PgResult | PgResult[]>;
+}
+
+/**
+ * The parts of a `pg` pool used by the executor, `Pool` from `pg` matches it.
+ */
+export interface PgPool extends PgQueryable {
+  connect(): Promise<PgQueryable & { release(): void }>;
+  end?(): Promise<void>;
+}
+
+export interface PgExecutorOptions {
+  /** How values of specific column types are returned. */
+  normalize?: NormalizeOptions;
+}
+
+// PostgreSQL type ids, as reported in the field metadata
+const INT8 = 20;
+const JSON_TYPE = 114;
+const NUMERIC = 1700;
+const JSONB = 3802;
+
+/**
+ * Query executor on a `pg` pool. Placeholders are `$1`, `$2`... and INT8 and NUMERIC
+ * values, which `pg` returns as strings, are converted by the normalize policy. JSON
+ * values come parsed by `pg`.
+ * Statements without a result set return their row count as `affectedRows`; use
+ * `RETURNING` to get generated ids.
+ */
+export default class PgExecutor implements QueryExecutor {
+  pool: PgPool;
+  private normalize: NormalizeOptions | undefined;
+
+  /**
+   * @param pool - A `pg` pool.
+   * @param options - Optional normalize policy.
+   */
+  constructor(pool: PgPool, options: PgExecutorOptions = {}) {
+    this.pool = pool;
+    this.normalize = options.normalize;
+  }
+
+  placeholder(index: number) {
+    return `$${index + 1}`;
+  }
+
+  query(sql: string, params?: any[]): Promise<any> {
+    return this._query(this.pool, sql, params);
+  }
+
+  /**
+   * End the pool once its queries are done.
+   */
+  async close() {
+    await this.pool.end?.();
+  }
+
+  async getConnection(): Promise<ExecutorConnection> {
+    const client = await this.pool.connect();
+    return {
+      query: (sql, params) => this._query(client, sql, params),
+      beginTransaction: async () => {
+        await client.query({ text: 'BEGIN' });
+      },
+      commit: async () => {
+        await client.query({ text: 'COMMIT' });
+      },
+      rollback: async () => {
+        await client.query({ text: 'ROLLBACK' });
+      },
+      release: () => client.release(),
+    };
+  }
+
+  /**
+   * Execute a query and normalize its rows based on the column types.
+   */
+  private async _query(queryable: PgQueryable, sql: string, params?: any[]) {
+    const result = await queryable.query({ text: sql, values: params });
+    // multiple statements return one result per statement
+    if (Array.isArray(result)) return result.map(r => this._result(r));
+    return this._result(result);
+  }
+
+  /**
+   * Return the rows of a result set, or the row count of another statement.
+   */
+  private _result(result: PgResult): any[] | StatementResult {
+    if (result.fields.length === 0) return { affectedRows: result.rowCount ?? 0 };
+    const columns = result.fields.map(field => {
+      const kind = pgKind(field.dataTypeID);
+      return { name: field.name, kind, parsed: kind === 'json' };
+    });
+    return normalizeColumns(result.rows, columns, this.normalize);
+  }
+}
+
+/**
+ * Return the kind of a PostgreSQL column from its type id.
+ */
+function pgKind(dataTypeID: number): ColumnKind | undefined {
+  switch (dataTypeID) {
+    case NUMERIC:
+      return 'decimal';
+    case INT8:
+      return 'bigint';
+    case JSON_TYPE:
+    case JSONB:
+      return 'json';
+    default:
+      return undefined;
+  }
+}
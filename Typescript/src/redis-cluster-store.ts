@@ -0,0 +1,266 @@
+import { EventEmitter } from 'events';
+import {
+  createCluster,
+  RedisClientOptions,
+  RedisClusterOptions,
+  RedisClusterType,
+  RESP_TYPES,
+} from 'redis';
+import { ResilienceOptions, withReconnectStrategy } from './resilience.js';
+import {
+  BUMP_SCRIPT,
+  INDEX_SCRIPT,
+  RELEASE_LOCK_SCRIPT,
+} from './scripts.js';
+import type {
+  CacheStore,
+  StoreEntry,
+  StoreErrorListener,
+  StoreGuard,
+  StoreSetEntry,
+} from './store.js';
+
+/**
+ * Cache store on a Redis Cluster, connecting with `createCluster` from `redis`.
+ * Cache entries, index sets and generation counters hash to different slots, so every
+ * command addresses a single key: batches are sent as concurrent commands, set
+ * intersections are computed by the store and scans visit every master in turn.
+ */
+export default class RedisClusterStore extends EventEmitter implements CacheStore {
+  clusterConfig: RedisClusterOptions;
+  cluster: RedisClusterType | undefined;
+  private resilience: ResilienceOptions | undefined;
+  private connecting: Promise<unknown> | undefined;
+
+  /**
+   * @param clusterConfig - The root nodes of the cluster and the options of every node.
+   * @param resilience - Optional reconnection settings for the node connections.
+   */
+  constructor(clusterConfig: RedisClusterOptions, resilience?: ResilienceOptions) {
+    super();
+    this.clusterConfig = clusterConfig;
+    this.resilience = resilience;
+  }
+
+  get isOpen() {
+    return this.cluster !== undefined;
+  }
+
+  get isReady() {
+    return !this.connecting && (this.cluster?.isOpen ?? false);
+  }
+
+  on(event: 'error', listener: StoreErrorListener): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Discover the topology and connect to the masters. If connecting gives up, the next
+   * call starts over.
+   */
+  async connect() {
+    if (this.cluster) return;
+    const defaults = withReconnectStrategy(
+      this.clusterConfig.defaults as RedisClientOptions,
+      this.resilience
+    );
+    // the store reads RESP2 replies
+    const cluster = createCluster({
+      ...this.clusterConfig,
+      defaults,
+    } as RedisClusterOptions<{}, {}, {}, 2, {}>);
+    // keep the connections on errors, the nodes reconnect by themselves
+    cluster.on('error', err => {
+      if (this.listenerCount('error') > 0) this.emit('error', err, 'client');
+      else console.log('Redis Client Error', err);
+    });
+    this.cluster = cluster;
+    // not ready until the topology is known
+    this.connecting = cluster.connect();
+    try {
+      await this.connecting;
+    } catch (err) {
+      if (this.cluster === cluster) this.cluster = undefined;
+      throw err;
+    } finally {
+      this.connecting = undefined;
+    }
+  }
+
+  async close() {
+    const cluster = this.cluster;
+    this.cluster = undefined;
+    if (cluster?.isOpen) await cluster.close();
+  }
+
+  get(key: string): Promise<Buffer | null> {
+    return this._redis()
+      .withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer })
+      .get(key);
+  }
+
+  getMany(keys: string[]): Promise<(Buffer | null)[]> {
+    return Promise.all(keys.map(key => this.get(key)));
+  }
+
+  ttl(key: string): Promise<number> {
+    return this._redis().pTTL(key);
+  }
+
+  /**
+   * Set a value. The counters of a guard live on other nodes, so they are checked
+   * before setting the value and again after it, deleting the value if they changed.
+   */
+  async set(key: string, value: Buffer | string, ttl: number, guard?: StoreGuard) {
+    const redis = this._redis();
+    if (guard && !(await this._isCurrent(guard))) return false;
+    await redis.set(key, value, { EX: ttl });
+    if (guard && !(await this._isCurrent(guard))) {
+      await redis.del(key);
+      return false;
+    }
+    return true;
+  }
+
+  setMany(entries: StoreEntry[]) {
+    return Promise.all(
+      entries.map(({ key, value, ttl, guard }) => this.set(key, value, ttl, guard))
+    );
+  }
+
+  delete(key: string): Promise<number> {
+    return this._redis().del(key);
+  }
+
+  async deleteMany(keys: string[], sets: string[] = []) {
+    if (keys.length === 0) return 0;
+    const redis = this._redis();
+    const [deleted] = await Promise.all([
+      Promise.all(keys.map(key => redis.unlink(key))),
+      Promise.all(sets.map(set => redis.sRem(set, keys))),
+    ]);
+    return deleted.reduce((count, reply) => count + Number(reply), 0);
+  }
+
+  async exists(keys: string[]) {
+    const redis = this._redis();
+    const replies = await Promise.all(keys.map(key => redis.exists(key)));
+    return replies.map(reply => Number(reply) > 0);
+  }
+
+  /**
+   * Iterate over the keys of every master. The cursor holds the position of the
+   * master in the topology and the cursor on that master.
+   */
+  async scan(cursor: string, match?: string) {
+    const redis = this._redis();
+    const [position, nodeCursor = '0'] = cursor.split('-');
+    const node = Number(position);
+    const master = redis.masters[node];
+    if (!master) return { cursor: '0', keys: [] };
+    const client = await redis.nodeClient(master);
+    const reply = match
+      ? await client.scan(nodeCursor, { MATCH: match })
+      : await client.scan(nodeCursor);
+    if (reply.cursor !== '0')
+      return { cursor: `${node}-${reply.cursor}`, keys: reply.keys };
+    // move on to the next master, '0' once the last one is done
+    const next = node + 1 < redis.masters.length ? `${node + 1}-0` : '0';
+    return { cursor: next, keys: reply.keys };
+  }
+
+  async lock(key: string, token: string, ttl: number) {
+    const reply = await this._redis().set(key, token, { NX: true, PX: ttl });
+    return reply !== null;
+  }
+
+  async unlock(key: string, token: string) {
+    await this._redis().eval(RELEASE_LOCK_SCRIPT, {
+      keys: [key],
+      arguments: [token],
+    });
+  }
+
+  async addToSets(entries: StoreSetEntry[]) {
+    const redis = this._redis();
+    await Promise.all(
+      entries.flatMap(({ member, sets, ttl }) =>
+        sets.map(set =>
+          redis.eval(INDEX_SCRIPT, { keys: [set], arguments: [member, String(ttl)] })
+        )
+      )
+    );
+  }
+
+  members(set: string): Promise<string[]> {
+    return this._redis().sMembers(set);
+  }
+
+  async intersect(sets: string[]) {
+    const redis = this._redis();
+    const [first, ...rest] = await Promise.all(sets.map(set => redis.sMembers(set)));
+    if (!first) return [];
+    const others = rest.map(members => new Set(members));
+    return first.filter(member => others.every(other => other.has(member)));
+  }
+
+  removeFromSet(set: string, members: string[]): Promise<number> {
+    return this._redis().sRem(set, members);
+  }
+
+  async increment(keys: string[], ttl: number) {
+    const redis = this._redis();
+    await Promise.all(
+      keys.map(key =>
+        redis.eval(BUMP_SCRIPT, { keys: [key], arguments: [String(ttl)] })
+      )
+    );
+  }
+
+  /**
+   * Ping every master, a cluster is healthy only if every slot is served.
+   */
+  async ping() {
+    const redis = this._redis();
+    await Promise.all(
+      redis.masters.map(async master => {
+        const client = await redis.nodeClient(master);
+        await client.ping();
+      })
+    );
+  }
+
+  async publish(channel: string, message: string) {
+    await this._redis().publish(channel, message);
+  }
+
+  /**
+   * Subscribe through the cluster's pub/sub connection, which moves to another node
+   * when its node fails.
+   */
+  async subscribe(channel: string, listener: (message: string) => void) {
+    await this._redis().subscribe(channel, listener);
+  }
+
+  async unsubscribe(channel: string, listener: (message: string) => void) {
+    // the listener of a channel subscription only receives strings
+    await this.cluster?.unsubscribe(channel, listener as (message: unknown) => void);
+  }
+
+  /**
+   * Check that the counters of a guard still have their values.
+   */
+  private async _isCurrent(guard: StoreGuard) {
+    const redis = this._redis();
+    const values = await Promise.all(guard.keys.map(key => redis.get(key)));
+    return values.every((value, i) => (value ?? '0') === guard.values[i]);
+  }
+
+  /**
+   * Return the connected cluster.
+   */
+  private _redis() {
+    if (!this.cluster) throw new Error('Redis client is not connected');
+    return this.cluster;
+  }
+}
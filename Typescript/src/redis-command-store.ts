@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import { RedisClientType, RedisSentinelType, RESP_TYPES } from 'redis';
+import { ResilienceOptions } from './resilience.js';
+import {
+  BUMP_SCRIPT,
+  INDEX_SCRIPT,
+  RELEASE_LOCK_SCRIPT,
+  STORE_IF_CURRENT_SCRIPT,
+} from './scripts.js';
+import type {
+  CacheStore,
+  StoreEntry,
+  StoreErrorListener,
+  StoreGuard,
+  StoreSetEntry,
+} from './store.js';
+
+/**
+ * A client that sends every command to one Redis master.
+ */
+export type RedisConnection = RedisClientType | RedisSentinelType;
+
+/**
+ * Cache store commands on a single Redis master, shared by the store connecting to a
+ * server and the store following the master of a Sentinel deployment.
+ */
+export default abstract class RedisCommandStore<Client extends RedisConnection>
+  extends EventEmitter
+  implements CacheStore
+{
+  client: Client | undefined;
+  protected resilience: ResilienceOptions | undefined;
+
+  /**
+   * @param resilience - Optional reconnection settings.
+   */
+  constructor(resilience?: ResilienceOptions) {
+    super();
+    this.resilience = resilience;
+  }
+
+  get isOpen() {
+    return this.client !== undefined;
+  }
+
+  get isReady() {
+    return this.client?.isReady ?? false;
+  }
+
+  on(event: 'error', listener: StoreErrorListener): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Connect to Redis. The client reconnects in the background with backoff after
+   * losing the connection; if connecting gives up, the next call starts over.
+   */
+  async connect() {
+    if (this.client) return;
+    const client = this._createClient('client');
+    this.client = client;
+    await client.connect().catch(err => {
+      if (this.client === client) this.client = undefined;
+      throw err;
+    });
+  }
+
+  async close() {
+    const client = this.client;
+    this.client = undefined;
+    if (client) await this._closeClient(client);
+  }
+
+  get(key: string): Promise<Buffer | null> {
+    return this._redis()
+      .withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer })
+      .get(key);
+  }
+
+  getMany(keys: string[]): Promise<(Buffer | null)[]> {
+    return this._redis()
+      .withTypeMapping({ [RESP_TYPES.BLOB_STRING]: Buffer })
+      .mGet(keys);
+  }
+
+  ttl(key: string): Promise<number> {
+    return this._redis().pTTL(key);
+  }
+
+  async set(key: string, value: Buffer | string, ttl: number, guard?: StoreGuard) {
+    const redis = this._redis();
+    const reply = guard
+      ? await redis.eval(STORE_IF_CURRENT_SCRIPT, storeIfCurrent(key, value, ttl, guard))
+      : await redis.set(key, value, { EX: ttl });
+    return reply !== null;
+  }
+
+  async setMany(entries: StoreEntry[]) {
+    const pipeline = this._redis().multi();
+    for (const { key, value, ttl, guard } of entries) {
+      if (guard)
+        pipeline.eval(STORE_IF_CURRENT_SCRIPT, storeIfCurrent(key, value, ttl, guard));
+      else pipeline.set(key, value, { EX: ttl });
+    }
+    const replies = await pipeline.execAsPipeline();
+    return replies.map(reply => reply !== null);
+  }
+
+  delete(key: string): Promise<number> {
+    return this._redis().del(key);
+  }
+
+  async deleteMany(keys: string[], sets: string[] = []) {
+    if (keys.length === 0) return 0;
+    const pipeline = this._redis().multi();
+    for (const key of keys) pipeline.unlink(key);
+    for (const set of sets) pipeline.sRem(set, keys);
+    const replies = await pipeline.execAsPipeline();
+    return keys.reduce((count, _, i) => count + Number(replies[i]), 0);
+  }
+
+  async exists(keys: string[]) {
+    if (keys.length === 0) return [];
+    const pipeline = this._redis().multi();
+    for (const key of keys) pipeline.exists(key);
+    const replies = await pipeline.execAsPipeline();
+    return replies.map(reply => Number(reply) > 0);
+  }
+
+  scan(cursor: string, match?: string) {
+    const redis = this._redis();
+    return match ? redis.scan(cursor, { MATCH: match }) : redis.scan(cursor);
+  }
+
+  async lock(key: string, token: string, ttl: number) {
+    const reply = await this._redis().set(key, token, { NX: true, PX: ttl });
+    return reply !== null;
+  }
+
+  async unlock(key: string, token: string) {
+    await this._redis().eval(RELEASE_LOCK_SCRIPT, {
+      keys: [key],
+      arguments: [token],
+    });
+  }
+
+  async addToSets(entries: StoreSetEntry[]) {
+    const redis = this._redis();
+    const calls = entries.flatMap(({ member, sets, ttl }) =>
+      sets.map(set => ({ keys: [set], arguments: [member, String(ttl)] }))
+    );
+    if (calls.length === 0) return;
+    // a single entry is indexed with concurrent calls, batches with one pipeline
+    if (entries.length === 1) {
+      await Promise.all(calls.map(call => redis.eval(INDEX_SCRIPT, call)));
+      return;
+    }
+    const pipeline = redis.multi();
+    for (const call of calls) pipeline.eval(INDEX_SCRIPT, call);
+    await pipeline.execAsPipeline();
+  }
+
+  members(set: string): Promise<string[]> {
+    return this._redis().sMembers(set);
+  }
+
+  intersect(sets: string[]): Promise<string[]> {
+    return this._redis().sInter(sets);
+  }
+
+  removeFromSet(set: string, members: string[]): Promise<number> {
+    return this._redis().sRem(set, members);
+  }
+
+  async increment(keys: string[], ttl: number) {
+    if (keys.length === 0) return;
+    await this._redis().eval(BUMP_SCRIPT, { keys, arguments: [String(ttl)] });
+  }
+
+  async ping() {
+    await this._redis().ping();
+  }
+
+  async publish(channel: string, message: string) {
+    await this._redis().publish(channel, message);
+  }
+
+  abstract subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+
+  abstract unsubscribe(channel: string, listener: (message: string) => void): Promise<void>;
+
+  /**
+   * Create a client that reports its errors instead of throwing them.
+   */
+  protected _createClient(source: 'client' | 'subscriber') {
+    const client = this._newClient(this.resilience);
+    // keep the connection on errors, it reconnects by itself
+    client.on('error', (err: unknown) => {
+      if (this.listenerCount('error') > 0) this.emit('error', err, source);
+      else console.log('Redis Client Error', err);
+    });
+    return client;
+  }
+
+  /**
+   * Create a client for the configuration.
+   */
+  protected abstract _newClient(resilience?: ResilienceOptions): Client;
+
+  /**
+   * Close a client gracefully if it is connected, or stop it from reconnecting.
+   */
+  protected abstract _closeClient(client: Client): Promise<void>;
+
+  /**
+   * Return the connected client.
+   */
+  protected _redis() {
+    if (!this.client) throw new Error('Redis client is not connected');
+    return this.client;
+  }
+}
+
+/**
+ * Return the arguments of the conditional store script.
+ */
+function storeIfCurrent(
+  key: string,
+  value: Buffer | string,
+  ttl: number,
+  guard: StoreGuard
+) {
+  return {
+    keys: [key, ...guard.keys],
+    arguments: [value, String(ttl), ...guard.values],
+  };
+}
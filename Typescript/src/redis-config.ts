@@ -0,0 +1,36 @@
+import type {
+  RedisClientOptions,
+  RedisClusterOptions,
+  RedisSentinelOptions,
+} from 'redis';
+import RedisClusterStore from './redis-cluster-store.js';
+import RedisSentinelStore from './redis-sentinel-store.js';
+import RedisStore from './redis-store.js';
+import type { ResilienceOptions } from './resilience.js';
+import type { CacheStore } from './store.js';
+
+/**
+ * The options of `createClient`, `createCluster` (with `rootNodes`) or `createSentinel`
+ * (with `sentinelRootNodes`) from `redis`.
+ */
+export type RedisConfig =
+  | RedisClientOptions
+  | RedisClusterOptions
+  | RedisSentinelOptions;
+
+/**
+ * Create the cache store for a Redis server, cluster or Sentinel deployment.
+ * @param redisConfig - Optional configuration for connection to Redis.
+ * @param resilience - Optional reconnection settings.
+ * @returns - The store, not connected yet.
+ */
+export function createRedisStore(
+  redisConfig?: RedisConfig,
+  resilience?: ResilienceOptions
+): CacheStore {
+  if (redisConfig && 'rootNodes' in redisConfig)
+    return new RedisClusterStore(redisConfig, resilience);
+  if (redisConfig && 'sentinelRootNodes' in redisConfig)
+    return new RedisSentinelStore(redisConfig, resilience);
+  return new RedisStore(redisConfig, resilience);
+}
@@ -0,0 +1,52 @@
+import {
+  createSentinel,
+  RedisClientOptions,
+  RedisSentinelOptions,
+  RedisSentinelType,
+} from 'redis';
+import RedisCommandStore from './redis-command-store.js';
+import { ResilienceOptions, withReconnectStrategy } from './resilience.js';
+
+/**
+ * Cache store on a Sentinel-managed Redis deployment, connecting with `createSentinel`
+ * from `redis`. Commands follow the master through failovers, and subscriptions use
+ * the pub/sub connection of the sentinel client, which moves with them.
+ */
+export default class RedisSentinelStore extends RedisCommandStore<RedisSentinelType> {
+  sentinelConfig: RedisSentinelOptions;
+
+  /**
+   * @param sentinelConfig - The name of the master and the sentinels to discover it from.
+   * @param resilience - Optional reconnection settings for the node connections.
+   */
+  constructor(sentinelConfig: RedisSentinelOptions, resilience?: ResilienceOptions) {
+    super(resilience);
+    this.sentinelConfig = sentinelConfig;
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    await this._redis().subscribe(channel, listener);
+  }
+
+  async unsubscribe(channel: string, listener: (message: string) => void) {
+    // the listener of a channel subscription only receives strings
+    await this.client?.unsubscribe(channel, listener as (message: unknown) => void);
+  }
+
+  protected _newClient(resilience?: ResilienceOptions): RedisSentinelType {
+    const nodeClientOptions = withReconnectStrategy(
+      this.sentinelConfig.nodeClientOptions as RedisClientOptions,
+      resilience
+    );
+    // the store reads RESP2 replies
+    return createSentinel({
+      ...this.sentinelConfig,
+      nodeClientOptions,
+    } as RedisSentinelOptions<{}, {}, {}, 2, {}>);
+  }
+
+  protected async _closeClient(sentinel: RedisSentinelType) {
+    if (sentinel.isReady) await sentinel.close();
+    else if (sentinel.isOpen) await sentinel.destroy();
+  }
+}
@@ -0,0 +1,53 @@
+import { createClient, RedisClientOptions, RedisClientType } from 'redis';
+import RedisCommandStore from './redis-command-store.js';
+import { ResilienceOptions, withReconnectStrategy } from './resilience.js';
+
+/**
+ * Cache store on a Redis server, connecting with `createClient` from `redis`.
+ * Subscriptions use a dedicated connection opened on first use, which reconnects and
+ * resubscribes by itself.
+ */
+export default class RedisStore extends RedisCommandStore<RedisClientType> {
+  redisConfig: RedisClientOptions | undefined;
+  subscriber: RedisClientType | undefined;
+
+  /**
+   * @param redisConfig - Optional configuration for connection to Redis.
+   * @param resilience - Optional reconnection settings.
+   */
+  constructor(redisConfig?: RedisClientOptions, resilience?: ResilienceOptions) {
+    super(resilience);
+    this.redisConfig = redisConfig;
+  }
+
+  async close() {
+    const subscriber = this.subscriber;
+    this.subscriber = undefined;
+    await super.close();
+    if (subscriber) await this._closeClient(subscriber);
+  }
+
+  async subscribe(channel: string, listener: (message: string) => void) {
+    if (!this.subscriber) {
+      const subscriber = this._createClient('subscriber');
+      await subscriber.connect();
+      this.subscriber = subscriber;
+    }
+    await this.subscriber.subscribe(channel, listener);
+  }
+
+  async unsubscribe(channel: string, listener: (message: string) => void) {
+    await this.subscriber?.unsubscribe(channel, listener);
+  }
+
+  protected _newClient(resilience?: ResilienceOptions): RedisClientType {
+    return createClient(
+      withReconnectStrategy(this.redisConfig, resilience)
+    ) as RedisClientType;
+  }
+
+  protected async _closeClient(client: RedisClientType) {
+    if (client.isReady) await client.quit();
+    else if (client.isOpen) client.destroy();
+  }
+}
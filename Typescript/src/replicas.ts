@@ -0,0 +1,90 @@
+import type { PoolOptions } from 'mysql2/promise';
+import type { QueryExecutor } from './executor.js';
+import { CircuitBreaker } from './resilience.js';
+
+export interface ReplicaOptions {
+  /** The MySQL configurations of the replicas, or their query executors. */
+  nodes: (PoolOptions | string | QueryExecutor)[];
+  /**
+   * Time in milliseconds after a write during which the reads of the same session go
+   * to the primary, longer than the replication lag. Default is 2 seconds.
+   */
+  readYourWrites?: number;
+  /** Consecutive failures that take a replica out of the rotation. Default is 1. */
+  failureThreshold?: number;
+  /** Time in milliseconds before a failing replica is tried again. Default is 10 seconds. */
+  retryAfter?: number;
+}
+
+export interface Replica {
+  executor: QueryExecutor;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Read replicas used in turn, skipping those whose circuit is open, and the recent
+ * writes that make reads go to the primary instead.
+ */
+export default class ReplicaSet {
+  replicas: Replica[];
+  private readYourWrites: number;
+  private next = 0;
+  private writes = new Map<string, number>();
+
+  /**
+   * @param executors - The query executors of the replicas.
+   * @param options - Optional read-your-writes window and failure settings.
+   */
+  constructor(
+    executors: QueryExecutor[],
+    options: Omit<ReplicaOptions, 'nodes'> = {}
+  ) {
+    this.readYourWrites = options.readYourWrites ?? 2000;
+    this.replicas = executors.map(executor => ({
+      executor,
+      breaker: new CircuitBreaker({
+        failureThreshold: options.failureThreshold ?? 1,
+        resetTimeout: options.retryAfter ?? 10000,
+      }),
+    }));
+  }
+
+  /**
+   * Return the replica for the next read, round-robin.
+   * @param session - The session reading, if any.
+   * @returns - The replica, undefined if the session wrote recently or no replica is
+   * available.
+   */
+  pick(session?: string): Replica | undefined {
+    if (this._wroteRecently(session)) return undefined;
+    for (let i = 0; i < this.replicas.length; i++) {
+      const index = (this.next + i) % this.replicas.length;
+      if (!this.replicas[index].breaker.allow()) continue;
+      this.next = index + 1;
+      return this.replicas[index];
+    }
+    return undefined;
+  }
+
+  /**
+   * Send the reads of a session to the primary for the read-your-writes window.
+   * @param session - The session that wrote. A write without a session does not
+   * change where reads go.
+   */
+  recordWrite(session?: string) {
+    if (session === undefined) return;
+    const now = Date.now();
+    this.writes.set(session, now);
+    // forget the sessions whose window is over
+    for (const [key, time] of this.writes)
+      if (now - time >= this.readYourWrites) this.writes.delete(key);
+  }
+
+  /**
+   * Check whether the reads of a session must go to the primary.
+   */
+  private _wroteRecently(session?: string) {
+    const time = session === undefined ? undefined : this.writes.get(session);
+    return time !== undefined && Date.now() - time < this.readYourWrites;
+  }
+}
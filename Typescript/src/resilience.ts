@@ -0,0 +1,118 @@
+import { RedisClientOptions } from 'redis';
+
+export interface ResilienceOptions {
+  /** Maximum time in milliseconds a Redis operation may take. Default is 1 second. */
+  operationTimeout?: number;
+  /** Consecutive Redis failures that open the circuit. Default is 5. */
+  failureThreshold?: number;
+  /** Time in milliseconds the circuit stays open before Redis is tried again. Default is 10 seconds. */
+  resetTimeout?: number;
+  /** Delay in milliseconds before the first reconnection attempt. Default is 100 ms. */
+  minReconnectDelay?: number;
+  /** Maximum delay in milliseconds between reconnection attempts. Default is 10 seconds. */
+  maxReconnectDelay?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stop calling Redis after repeated failures, then let a single probe through once
+ * the reset timeout has passed.
+ */
+export class CircuitBreaker {
+  state: CircuitState = 'closed';
+  failureThreshold: number;
+  resetTimeout: number;
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  /**
+   * @param options - Optional failure threshold and reset timeout.
+   */
+  constructor(options: ResilienceOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 10000;
+  }
+
+  /**
+   * Check whether a Redis call may be attempted.
+   * @returns - False while the circuit is open or a probe is in flight.
+   */
+  allow() {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.resetTimeout) return false;
+      this.state = 'half-open';
+      this.probing = false;
+    }
+    if (this.probing) return false;
+    this.probing = true;
+    return true;
+  }
+
+  /**
+   * Record a successful call, closing the circuit.
+   */
+  success() {
+    this.state = 'closed';
+    this.failures = 0;
+    this.probing = false;
+  }
+
+  /**
+   * Record a failed call, opening the circuit past the threshold or after a failed probe.
+   */
+  failure() {
+    this.failures++;
+    this.probing = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * Reject if a promise does not settle in time.
+ * @param promise - The pending operation.
+ * @param timeout - Time limit in milliseconds, no limit if not positive.
+ * @returns - The result of the operation.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  if (!(timeout > 0)) return promise;
+  let timer: NodeJS.Timeout;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`Redis operation timed out after ${timeout} ms`)),
+        timeout
+      );
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Add a reconnection strategy with exponential backoff and jitter to a Redis
+ * configuration, unless it defines its own.
+ * @param redisConfig - The configuration for Redis.
+ * @param options - Optional reconnection delays.
+ * @returns - The configuration to create the client with.
+ */
+export function withReconnectStrategy(
+  redisConfig: RedisClientOptions | undefined,
+  options: ResilienceOptions = {}
+): RedisClientOptions {
+  if (redisConfig?.socket?.reconnectStrategy !== undefined) return redisConfig;
+  const min = options.minReconnectDelay ?? 100;
+  const max = options.maxReconnectDelay ?? 10000;
+  return {
+    ...redisConfig,
+    socket: {
+      ...redisConfig?.socket,
+      reconnectStrategy: (retries: number) =>
+        Math.round(Math.min(max, min * 2 ** retries) * (0.5 + Math.random() / 2)),
+    } as RedisClientOptions['socket'],
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Lua scripts run by the Redis stores.
+ */
+
+// delete the lock only if it is still owned by the caller
+export const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+// add the entry to an index set, extending the set's ttl to outlive the entry
+export const INDEX_SCRIPT = `
+redis.call('sadd', KEYS[1], ARGV[1])
+if redis.call('ttl', KEYS[1]) < tonumber(ARGV[2]) then
+  redis.call('expire', KEYS[1], ARGV[2])
+end
+return 1
+`;
+
+// store the entry only if no generation counter changed since the value was computed
+export const STORE_IF_CURRENT_SCRIPT = `
+for i = 2, #KEYS do
+  if (redis.call('get', KEYS[i]) or '0') ~= ARGV[i + 1] then
+    return false
+  end
+end
+return redis.call('set', KEYS[1], ARGV[1], 'EX', ARGV[2])
+`;
+
+// increment the generation counters, keeping them until they are no longer compared
+export const BUMP_SCRIPT = `
+for i = 1, #KEYS do
+  redis.call('incr', KEYS[i])
+  redis.call('expire', KEYS[i], ARGV[1])
+end
+return #KEYS
+`;
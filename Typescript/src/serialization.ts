@@ -0,0 +1,89 @@
+/**
+ * Serialization of cached values.
+ *
+ * Plain entries are the JSON encoding of the value. Typed entries wrap the value in
+ * an envelope, `{"$mrc":1,"v":...}`, where values JSON cannot represent are tagged:
+ * - `{"$mrc":"date","v":"2024-01-01T00:00:00.000Z"}` for Date
+ * - `{"$mrc":"buffer","v":"<base64>"}` for Buffer and Uint8Array
+ * - `{"$mrc":"bigint","v":"9007199254740993"}` for BigInt
+ * - `{"$mrc":"object","v":{...}}` for plain objects that have a `$mrc` key themselves
+ */
+
+const TAG = '$mrc';
+const ENVELOPE_VERSION = 1;
+const ENVELOPE_START = `{"${TAG}":${ENVELOPE_VERSION},`;
+
+/**
+ * Replace the values JSON cannot represent with tagged objects.
+ */
+function encodeTyped(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    if (typeof value === 'bigint') return { [TAG]: 'bigint', v: value.toString() };
+    return value;
+  }
+  if (value instanceof Date) return { [TAG]: 'date', v: value.toISOString() };
+  if (value instanceof Uint8Array)
+    return { [TAG]: 'buffer', v: Buffer.from(value).toString('base64') };
+  if (Array.isArray(value)) return value.map(encodeTyped);
+
+  const encoded: any = {};
+  for (const key of Object.keys(value)) encoded[key] = encodeTyped(value[key]);
+  return TAG in encoded ? { [TAG]: 'object', v: encoded } : encoded;
+}
+
+/**
+ * Restore the values tagged by encodeTyped.
+ */
+function decodeTyped(value: any): any {
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(decodeTyped);
+
+  if (TAG in value) {
+    switch (value[TAG]) {
+      case 'date':
+        return new Date(value.v);
+      case 'buffer':
+        return Buffer.from(value.v, 'base64');
+      case 'bigint':
+        return BigInt(value.v);
+      case 'object':
+        return decodeFields(value.v);
+    }
+  }
+  return decodeFields(value);
+}
+
+/**
+ * Restore the tagged values in the fields of a plain object.
+ */
+function decodeFields(value: any): any {
+  const decoded: any = {};
+  for (const key of Object.keys(value)) decoded[key] = decodeTyped(value[key]);
+  return decoded;
+}
+
+/**
+ * Serialize a value for the cache.
+ * @param value - The value to store.
+ * @param typed - Wrap the value in a typed envelope so that dates, buffers and
+ * bigints are restored on read. Otherwise bigints are stored as strings.
+ * @returns - The serialized value.
+ */
+export function serialize(value: any, typed = false): string {
+  if (typed)
+    return JSON.stringify({ [TAG]: ENVELOPE_VERSION, v: encodeTyped(value) });
+  return JSON.stringify(value, (_, v) =>
+    typeof v === 'bigint' ? v.toString() : v
+  );
+}
+
+/**
+ * Deserialize a cached value, restoring the types of typed entries.
+ * @param text - The stored value.
+ * @returns - The value.
+ */
+export function deserialize(text: string): any {
+  const parsed = JSON.parse(text);
+  if (text.startsWith(ENVELOPE_START)) return decodeTyped(parsed.v);
+  return parsed;
+}
@@ -1,33 +1,253 @@
-import { createClient, RedisClientOptions, RedisClientType } from 'redis';
+import { EventEmitter } from 'events';
+import { RedisClientType } from 'redis';
+import type { InvalidationEvent, ServerEvents } from './events.js';
+import { checkComponent, HealthReport } from './health.js';
+import {
+  getGenerationKey,
+  getIndexKey,
+  getTableKey,
+  INDEX_PREFIX,
+  INVALIDATION_CHANNEL,
+  matchesCacheKey,
+  parseCacheKey,
+  stringifyParamValue,
+  TABLE_PREFIX,
+} from './keys.js';
+import { createRedisStore, RedisConfig } from './redis-config.js';
+import RedisStore from './redis-store.js';
+import { CircuitBreaker, ResilienceOptions, withTimeout } from './resilience.js';
+import { CacheStore, isCacheStore } from './store.js';
 
-export default class Server {
-  redisConfig: RedisClientOptions | undefined;
-  redisClient: RedisClientType | undefined;
+export interface ServerOptions {
+  /**
+   * Also scan the keyspace for matching entries that are missing from the index sets,
+   * such as entries written by older versions. Only worth enabling while such entries
+   * remain, since every invalidation then visits every key. Default is the value of
+   * `legacyKeys`.
+   */
+  scanFallback?: boolean;
+  /**
+   * Match entries in the legacy key format during the scan, such as those written by
+   * older versions during a rolling upgrade. They are not indexed, so this enables the
+   * scan fallback. Default is false.
+   */
+  legacyKeys?: boolean;
+  /**
+   * Time in milliseconds between two removals of the index and table set members whose
+   * entries have expired, counted from the first use of the store. 0 disables it.
+   * Default is 1 hour.
+   */
+  pruneInterval?: number;
+  /** Publish every invalidation on the `mrc:invalidations` channel. Default is true. */
+  publishInvalidations?: boolean;
+  /** Timeouts, circuit breaker and reconnection settings for Redis. */
+  resilience?: ResilienceOptions;
+  /**
+   * Increment the generation counter of every invalidated parameter value and table,
+   * so that clients with `generations` refuse to store values computed before the
+   * invalidation. Default is true.
+   */
+  generations?: boolean;
+  /**
+   * Delete the invalidated entries a second time after this many milliseconds, removing
+   * values stored by fills that raced with the invalidation. A cheaper alternative to
+   * generations. Default is 0 (disabled).
+   */
+  doubleDelete?: number;
+}
+
+// seconds a generation counter outlives its last increment, longer than any fill
+const GENERATION_TTL = 86400;
+
+export default class Server extends EventEmitter<ServerEvents> {
+  redisConfig: RedisConfig | undefined;
+  store: CacheStore;
+  options: ServerOptions;
+  private breaker: CircuitBreaker;
+  private redeletes = new Set<NodeJS.Timeout>();
+  private pruning: NodeJS.Timeout | undefined;
+  private ownsStore = false;
 
   /**
-   * @param redisConfig - The configuration for Redis.
+   * @param redisConfig - The configuration for Redis, or the cache store to use
+   * instead of Redis.
+   * @param options - Optional invalidation settings.
+   * @throws - If `legacyKeys` is set with the scan fallback turned off.
    */
-  constructor(redisConfig: RedisClientOptions) {
-    this.redisConfig = redisConfig;
+  constructor(
+    redisConfig: RedisConfig | CacheStore,
+    options: ServerOptions = {}
+  ) {
+    super();
+    if (options.legacyKeys && options.scanFallback === false)
+      throw new Error('legacyKeys needs scanFallback, legacy entries are not indexed');
+    this.options = options;
+    this.breaker = new CircuitBreaker(options.resilience);
+    if (isCacheStore(redisConfig)) {
+      this.store = redisConfig;
+    } else {
+      this.redisConfig = redisConfig;
+      this.store = createRedisStore(redisConfig, options.resilience);
+      this.ownsStore = true;
+      this.store.on?.('error', err => {
+        this.breaker.failure();
+        this._reportError('Redis Client Error', err);
+      });
+    }
   }
 
   /**
-   * Connect to a Redis instance.
+   * The Redis client of the default store, undefined before connecting or with
+   * another store.
+   */
+  get redisClient(): RedisClientType | undefined {
+    return this.store instanceof RedisStore ? this.store.client : undefined;
+  }
+
+  set redisClient(client: RedisClientType | undefined) {
+    if (this.store instanceof RedisStore) this.store.client = client;
+  }
+
+  /**
+   * Connect to the cache store.
+   * Redis reconnects in the background with backoff after losing the connection,
+   * waiting for the first connection is limited by the operation timeout.
    */
   async _connectRedis() {
-    this.redisClient = createClient(this.redisConfig) as RedisClientType;
-    this.redisClient.on('error', (err) => {
-      this.redisClient = undefined;
-      console.log('Redis Client Error', err);
-    });
-    await this.redisClient.connect();
+    await withTimeout(
+      this.store.connect(),
+      this.options.resilience?.operationTimeout ?? 1000
+    );
   }
 
   /**
-   * Disconnect from Redis.
+   * Disconnect from the cache store, cancelling pending second deletes and pruning.
    */
   async closeRedisConnection() {
-    await this.redisClient?.quit();
+    this._stopTimers();
+    await this.store.close();
+  }
+
+  /**
+   * Connect to the cache store instead of on first use, so that a wrong configuration
+   * fails at startup.
+   * @throws - If the cache store does not answer.
+   */
+  async connect() {
+    await this._connectRedis();
+    await withTimeout(
+      this.store.ping(),
+      this.options.resilience?.operationTimeout ?? 1000
+    );
+  }
+
+  /**
+   * Cancel pending second deletes and pruning and disconnect from the cache store,
+   * unless the store was passed to the constructor.
+   */
+  async close() {
+    if (this.ownsStore) await this.closeRedisConnection();
+    else this._stopTimers();
+  }
+
+  async [Symbol.asyncDispose]() {
+    await this.close();
+  }
+
+  /**
+   * Check the cache store, connecting if needed.
+   * @returns - The status and latency of the cache store.
+   */
+  async healthCheck(): Promise<HealthReport> {
+    const cache = await checkComponent(async () => {
+      if (!this.store.isOpen) await this._connectRedis();
+      await withTimeout(
+        this.store.ping(),
+        this.options.resilience?.operationTimeout ?? 1000
+      );
+    });
+    return { status: cache.status, cache };
+  }
+
+  /**
+   * Emit an error event, or log the error when nobody listens to error events.
+   */
+  private _reportError(label: string, error: unknown) {
+    if (this.listenerCount('error') > 0) this.emit('error', { error });
+    else console.log(label, error);
+  }
+
+  /**
+   * Return the cache store, connecting on first use.
+   * @returns - The store.
+   * @throws - If the store is unavailable or the circuit is open.
+   */
+  private async _available() {
+    if (!this.store.isOpen) {
+      try {
+        await this._connectRedis();
+      } catch (err) {
+        this.breaker.failure();
+        throw err;
+      }
+    }
+    if (!this.store.isReady) throw new Error('Redis client is not ready');
+    if (!this.breaker.allow())
+      throw new Error('Redis circuit is open after repeated failures');
+    this._schedulePruning();
+    return this.store;
+  }
+
+  /**
+   * Cancel pending second deletes and pruning.
+   */
+  private _stopTimers() {
+    for (const timer of this.redeletes) clearTimeout(timer);
+    this.redeletes.clear();
+    clearInterval(this.pruning);
+    this.pruning = undefined;
+  }
+
+  /**
+   * Start pruning the index sets periodically, once the store is in use.
+   */
+  private _schedulePruning() {
+    const interval = this.options.pruneInterval ?? 3600000;
+    if (this.pruning || !(interval > 0)) return;
+    let running = false;
+    this.pruning = setInterval(() => {
+      // a slow run is not overlapped by the next one
+      if (running) return;
+      running = true;
+      this.pruneIndexes()
+        .catch(err => this._reportError('Index Pruning Error', err))
+        .finally(() => {
+          running = false;
+        });
+    }, interval);
+    // pruning does not keep the process alive
+    this.pruning.unref();
+  }
+
+  /**
+   * Run a cache store operation within the operation timeout and record its outcome
+   * in the circuit breaker.
+   * @param op - The operation on the store.
+   * @returns - The result of the operation.
+   */
+  private async _call<T>(op: (store: CacheStore) => Promise<T>): Promise<T> {
+    const store = await this._available();
+    try {
+      const reply = await withTimeout(
+        op(store),
+        this.options.resilience?.operationTimeout ?? 1000
+      );
+      this.breaker.success();
+      return reply;
+    } catch (err) {
+      this.breaker.failure();
+      throw err;
+    }
   }
 
   /**
@@ -35,36 +255,214 @@ export default class Server {
    * @param keyNames - The names of the modified keys.
    * @param keyValues - The values of the modified keys.
    * @returns The number of deleted records.
+   * @throws - If Redis is unavailable or an operation fails, entries may then be
+   * partially deleted.
    */
   async dropOutdatedCache(
     keyNames: string[],
     keyValues: any[],
   ): Promise<number> {
-    // check Redis connection
-    if (!this.redisClient) await this._connectRedis();
-    if (!this.redisClient) return 0;
-
-    // Build array of exact parameter matches (e.g., ["MinAge=20", "Active=1"])
-    const paramMatches: string[] = [];
-    for (let i = 0; i < keyNames.length; i++) {
-      paramMatches.push(keyNames[i] + '=' + keyValues[i]);
+    const start = performance.now();
+    await this._bumpGenerations(this._indexKeys(keyNames, keyValues));
+    const deletedCount = await this._dropEntries(
+      keyNames,
+      keyValues,
+      this.options.scanFallback ?? this.options.legacyKeys ?? false
+    );
+    // racing fills are indexed, the second delete does not need to scan
+    this._redeleteLater(() => this._dropEntries(keyNames, keyValues, false));
+    await this._notify(start, deletedCount, keyNames, keyValues);
+    return deletedCount;
+  }
+
+  /**
+   * Delete all cached queries that depend on any of the given tables, optionally
+   * only those where the key also matches the given keys.
+   * Only entries whose tables were recorded by the client are found.
+   * @param tables - The names of the modified tables.
+   * @param keyNames - The names of the modified keys.
+   * @param keyValues - The values of the modified keys.
+   * @returns The number of deleted records.
+   * @throws - If Redis is unavailable or an operation fails, entries may then be
+   * partially deleted.
+   */
+  async invalidateTables(
+    tables: string[],
+    keyNames: string[] = [],
+    keyValues: any[] = []
+  ): Promise<number> {
+    const start = performance.now();
+    await this._bumpGenerations([
+      ...tables.map(getTableKey),
+      ...this._indexKeys(keyNames, keyValues),
+    ]);
+    const deletedCount = await this._dropTableEntries(tables, keyNames, keyValues);
+    this._redeleteLater(() =>
+      this._dropTableEntries(tables, keyNames, keyValues)
+    );
+    await this._notify(start, deletedCount, keyNames, keyValues, tables);
+    return deletedCount;
+  }
+
+  /**
+   * Return the index sets of parameter values.
+   */
+  private _indexKeys(keyNames: string[], keyValues: any[]) {
+    return keyNames.map((name, i) => getIndexKey(name, keyValues[i]));
+  }
+
+  /**
+   * Increment the generation counters of the given index and table sets.
+   */
+  private async _bumpGenerations(setKeys: string[]) {
+    if (this.options.generations === false || setKeys.length === 0) return;
+    await this._call(store =>
+      store.increment(setKeys.map(getGenerationKey), GENERATION_TTL)
+    );
+  }
+
+  /**
+   * Repeat a deletion after the double delete delay, if enabled.
+   */
+  private _redeleteLater(drop: () => Promise<number>) {
+    const delay = this.options.doubleDelete ?? 0;
+    if (!(delay > 0)) return;
+    const timer = setTimeout(() => {
+      this.redeletes.delete(timer);
+      drop().catch(err => this._reportError('Cache Invalidation Error', err));
+    }, delay);
+    // pending second deletes do not keep the process alive
+    timer.unref();
+    this.redeletes.add(timer);
+  }
+
+  /**
+   * Delete the cache entries depending on any of the tables and having all the given
+   * parameter values.
+   */
+  private async _dropTableEntries(
+    tables: string[],
+    keyNames: string[],
+    keyValues: any[]
+  ): Promise<number> {
+    const indexes = this._indexKeys(keyNames, keyValues);
+    let deletedCount = 0;
+    for (const table of new Set(tables.map(t => t.toLowerCase()))) {
+      // AND logic with the parameters, through their index sets
+      const sets = [getTableKey(table), ...indexes];
+      const keys = await this._call(store =>
+        sets.length === 1 ? store.members(sets[0]) : store.intersect(sets)
+      );
+      if (keys.length === 0) continue;
+      deletedCount += await this._call(store => store.deleteMany(keys, sets));
     }
+    return deletedCount;
+  }
 
-    // loop over all keys and find those that contain ALL parameter matches
-    let reply = { cursor: '0', keys: [''] };
+  /**
+   * Emit and publish an invalidation.
+   */
+  private async _notify(
+    start: number,
+    deleted: number,
+    keyNames: string[],
+    keyValues: any[],
+    tables?: string[]
+  ) {
+    const event: InvalidationEvent = {
+      params: Object.fromEntries(
+        keyNames.map((name, i) => [name, stringifyParamValue(keyValues[i])])
+      ),
+      deleted,
+      timestamp: Date.now(),
+    };
+    if (tables) event.tables = tables.map(t => t.toLowerCase());
+    this.emit('invalidation', { ...event, duration: performance.now() - start });
+    if (this.options.publishInvalidations !== false)
+      await this._call(store =>
+        store.publish(INVALIDATION_CHANNEL, JSON.stringify(event))
+      );
+  }
+
+  /**
+   * Delete the cache entries having all the given parameter values.
+   * Without parameters, every entry matches and the keyspace is always scanned.
+   * @param scan - Whether to also scan for entries missing from the index sets.
+   */
+  private async _dropEntries(
+    keyNames: string[],
+    keyValues: any[],
+    scan: boolean
+  ): Promise<number> {
+    const dropped = new Set<string>();
     let deletedCount = 0;
-    do {
-      reply = await this.redisClient.scan(reply.cursor);
-      for (const key of reply.keys) {
-        // Check if key contains ALL parameter matches (AND logic, not OR)
-        const matchesAll = paramMatches.every(param => key.includes(param));
-        if (matchesAll) {
-          await this.redisClient.del(key);
-          deletedCount++;
-        }
+
+    // entries indexed by the client are the intersection of the parameter sets
+    if (keyNames.length > 0) {
+      const indexes = this._indexKeys(keyNames, keyValues);
+      const keys = await this._call(store => store.intersect(indexes));
+      if (keys.length > 0) {
+        deletedCount += await this._call(store => store.deleteMany(keys, indexes));
+        for (const key of keys) dropped.add(key);
       }
+      if (!scan) return deletedCount;
+    }
+
+    // loop over all keys and find those that have ALL parameters with the exact values
+    let reply = { cursor: '0', keys: [''] };
+    do {
+      const cursor = reply.cursor;
+      reply = await this._call(store => store.scan(cursor));
+      const keys = reply.keys.filter(key => {
+        if (dropped.has(key)) return false;
+        // skip keys that are not cache entries
+        const parsed = parseCacheKey(key);
+        if (!parsed) return false;
+        if (parsed.format === 'legacy' && !this.options.legacyKeys) return false;
+        // AND logic, not OR
+        return matchesCacheKey(parsed, keyNames, keyValues);
+      });
+      // one batch of unlinks per page
+      if (keys.length > 0)
+        deletedCount += await this._call(store => store.deleteMany(keys));
     } while (reply.cursor !== '0');
 
     return deletedCount;
   }
+
+  /**
+   * Remove index and table set members whose cache entries have expired.
+   * @returns The number of removed members.
+   * @throws - If Redis is unavailable or an operation fails.
+   */
+  async pruneIndexes(): Promise<number> {
+    let removedCount = 0;
+    for (const prefix of [INDEX_PREFIX, TABLE_PREFIX])
+      removedCount += await this._pruneSets(prefix);
+    return removedCount;
+  }
+
+  /**
+   * Remove expired members from the sets with the given key prefix.
+   */
+  private async _pruneSets(prefix: string): Promise<number> {
+    let removedCount = 0;
+    let reply = { cursor: '0', keys: [''] };
+    do {
+      const cursor = reply.cursor;
+      reply = await this._call(store => store.scan(cursor, prefix + '*'));
+      for (const index of reply.keys) {
+        const members = await this._call(store => store.members(index));
+        if (members.length === 0) continue;
+        const exists = await this._call(store => store.exists(members));
+        const expired = members.filter((_, i) => !exists[i]);
+        if (expired.length > 0)
+          removedCount += await this._call(store =>
+            store.removeFromSet(index, expired)
+          );
+      }
+    } while (reply.cursor !== '0');
+
+    return removedCount;
+  }
 }
@@ -0,0 +1,135 @@
+import type {
+  ExecutorConnection,
+  QueryExecutor,
+  StatementResult,
+} from './executor.js';
+import { normalizeColumns, NormalizeOptions } from './normalize.js';
+
+/**
+ * The parts of a prepared statement used by the executor.
+ */
+export interface SQLiteStatement {
+  /** Whether the statement returns rows, as reported by `better-sqlite3`. */
+  reader?: boolean;
+  all(...params: any[]): any[];
+  run(...params: any[]): { changes: number | bigint; lastInsertRowid: number | bigint };
+}
+
+/**
+ * The parts of a database handle used by the executor. `Database` from
+ * `better-sqlite3` and `DatabaseSync` from `node:sqlite` match it.
+ */
+export interface SQLiteDatabase {
+  prepare(sql: string): SQLiteStatement;
+  close?(): unknown;
+}
+
+export interface SQLiteExecutorOptions {
+  /** How values of specific column types are returned. */
+  normalize?: NormalizeOptions;
+}
+
+// statements returning rows, for drivers that do not report it
+const READER = /^\s*(select|with|pragma|values|explain)\b|\breturning\b/i;
+
+/**
+ * Query executor on a synchronous SQLite database handle. Integers read as BigInt
+ * (with `safeIntegers`) are converted by the `bigint` normalize policy; SQLite has no
+ * DECIMAL or JSON column types, those values are returned as stored.
+ * The handle is a single connection, so transactions run one at a time and other
+ * queries wait for the running transaction to end.
+ */
+export default class SQLiteExecutor implements QueryExecutor {
+  db: SQLiteDatabase;
+  private normalize: NormalizeOptions | undefined;
+  private locked: Promise<void> = Promise.resolve();
+
+  /**
+   * @param db - A SQLite database handle.
+   * @param options - Optional normalize policy.
+   */
+  constructor(db: SQLiteDatabase, options: SQLiteExecutorOptions = {}) {
+    this.db = db;
+    this.normalize = options.normalize;
+  }
+
+  placeholder() {
+    return '?';
+  }
+
+  /**
+   * Execute a query once no transaction holds the database, so that it neither sees
+   * uncommitted rows nor is rolled back with a transaction.
+   */
+  async query(sql: string, params?: any[]): Promise<any> {
+    const unlock = await this._lock();
+    try {
+      return this._run(sql, params);
+    } finally {
+      unlock();
+    }
+  }
+
+  /**
+   * Wait until no other transaction holds the database.
+   */
+  async getConnection(): Promise<ExecutorConnection> {
+    const unlock = await this._lock();
+    return {
+      query: async (sql, params) => this._run(sql, params),
+      beginTransaction: async () => {
+        this._run('BEGIN');
+      },
+      commit: async () => {
+        this._run('COMMIT');
+      },
+      rollback: async () => {
+        this._run('ROLLBACK');
+      },
+      release: unlock,
+    };
+  }
+
+  /**
+   * Close the database handle once the running transaction is done.
+   */
+  async close() {
+    await this.locked;
+    this.db.close?.();
+  }
+
+  /**
+   * Take the database for a query or a transaction, after the previous holder.
+   * @returns - The function releasing the database.
+   */
+  private async _lock() {
+    let unlock!: () => void;
+    const previous = this.locked;
+    this.locked = new Promise(resolve => (unlock = resolve));
+    await previous;
+    return unlock;
+  }
+
+  /**
+   * Execute a query on the handle and normalize its rows.
+   */
+  private _run(sql: string, params: any[] = []): any {
+    const statement = this.db.prepare(sql);
+    if (!(statement.reader ?? READER.test(sql))) {
+      const { changes, lastInsertRowid } = statement.run(...params);
+      const result: StatementResult = {
+        affectedRows: Number(changes),
+        insertId: lastInsertRowid,
+      };
+      return result;
+    }
+    const rows = statement.all(...params);
+    const columns = Object.keys(rows[0] ?? {}).map(name => ({
+      name,
+      kind: rows.some(row => typeof row[name] === 'bigint')
+        ? ('bigint' as const)
+        : undefined,
+    }));
+    return normalizeColumns(rows, columns, this.normalize);
+  }
+}
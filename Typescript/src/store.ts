@@ -0,0 +1,113 @@
+/**
+ * Storage backend of the cache, implemented by RedisStore and MemoryStore.
+ * Values are stored as bytes, sets hold cache keys, counters are integers stored as
+ * strings. Expiration times are in seconds unless stated otherwise.
+ */
+export interface CacheStore {
+  /** Whether the store is connected or connecting. */
+  readonly isOpen: boolean;
+  /** Whether the store can serve requests. */
+  readonly isReady: boolean;
+
+  /** Open the connection, if not open yet. */
+  connect(): Promise<void>;
+  /** Close the connection, including the subscriptions. */
+  close(): Promise<void>;
+  /** Check the connection with a round trip, failing if the store does not answer. */
+  ping(): Promise<void>;
+  /** Listen to errors of the connection, reported without failing a request. */
+  on?(event: 'error', listener: StoreErrorListener): unknown;
+
+  /** Return the value of a key, null if it does not exist. */
+  get(key: string): Promise<Buffer | null>;
+  /** Return the values of several keys, null for those that do not exist. */
+  getMany(keys: string[]): Promise<(Buffer | null)[]>;
+  /** Return the remaining lifetime in milliseconds of a key, -1 without expiration, -2 if missing. */
+  ttl(key: string): Promise<number>;
+  /**
+   * Set the value of a key with an expiration time. With a guard, the value is set only
+   * while every counter still has the given value.
+   * @returns - Whether the value was set.
+   */
+  set(key: string, value: Buffer | string, ttl: number, guard?: StoreGuard): Promise<boolean>;
+  /** Set several values at once, in a single round trip if possible. */
+  setMany(entries: StoreEntry[]): Promise<boolean[]>;
+  /** Delete a key, returning the number of deleted keys. */
+  delete(key: string): Promise<number>;
+  /** Delete keys and remove them from the given sets, returning the number of deleted keys. */
+  deleteMany(keys: string[], sets?: string[]): Promise<number>;
+  /** Check which keys exist. */
+  exists(keys: string[]): Promise<boolean[]>;
+  /**
+   * Iterate over the keys, optionally matching a glob pattern.
+   * @param cursor - '0' to start, then the cursor of the previous reply.
+   * @returns - Some of the keys and the next cursor, '0' once the iteration is done.
+   */
+  scan(cursor: string, match?: string): Promise<{ cursor: string; keys: string[] }>;
+
+  /** Set a key to a token if it does not exist, expiring after `ttl` milliseconds. */
+  lock(key: string, token: string, ttl: number): Promise<boolean>;
+  /** Delete a key if it still holds the token. */
+  unlock(key: string, token: string): Promise<void>;
+
+  /**
+   * Add members to sets, extending the expiration of each set to at least the ttl of
+   * the member.
+   */
+  addToSets(entries: StoreSetEntry[]): Promise<void>;
+  /** Return the members of a set. */
+  members(set: string): Promise<string[]>;
+  /** Return the members present in every set. */
+  intersect(sets: string[]): Promise<string[]>;
+  /** Remove members from a set, returning the number of removed members. */
+  removeFromSet(set: string, members: string[]): Promise<number>;
+
+  /** Increment counters, each expiring `ttl` seconds after its last increment. */
+  increment(keys: string[], ttl: number): Promise<void>;
+
+  /** Send a message to the subscribers of a channel. */
+  publish(channel: string, message: string): Promise<void>;
+  /** Call a listener with every message sent to a channel. */
+  subscribe(channel: string, listener: (message: string) => void): Promise<void>;
+  /** Stop calling a listener of a channel. */
+  unsubscribe(channel: string, listener: (message: string) => void): Promise<void>;
+}
+
+export type StoreErrorListener = (
+  error: unknown,
+  source: 'client' | 'subscriber'
+) => void;
+
+export interface StoreGuard {
+  /** The keys of the counters. */
+  keys: string[];
+  /** The values the counters must still have, '0' for missing counters. */
+  values: string[];
+}
+
+export interface StoreEntry {
+  key: string;
+  value: Buffer | string;
+  ttl: number;
+  guard?: StoreGuard;
+}
+
+export interface StoreSetEntry {
+  member: string;
+  sets: string[];
+  ttl: number;
+}
+
+/**
+ * Check whether a value is a cache store rather than a Redis configuration.
+ * @param value - A cache store or a Redis configuration.
+ * @returns - True for cache stores.
+ */
+export function isCacheStore(value: unknown): value is CacheStore {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as CacheStore).get === 'function' &&
+    typeof (value as CacheStore).connect === 'function'
+  );
+}
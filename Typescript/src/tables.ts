@@ -0,0 +1,125 @@
+/**
+ * Extraction of the tables a query reads or writes.
+ */
+
+// keywords that end a list of table references
+const RESERVED = new Set([
+  'as', 'on', 'using', 'where', 'join', 'inner', 'outer', 'left', 'right', 'cross',
+  'natural', 'straight_join', 'group', 'order', 'having', 'limit', 'union', 'set',
+  'values', 'value', 'select', 'for', 'lock', 'window', 'partition', 'use', 'ignore',
+  'force', 'into', 'from', 'with', 'returning', 'except', 'intersect',
+]);
+
+// keywords followed by a table reference, INTO being optional after INSERT and REPLACE
+const TABLE_KEYWORDS = new Set([
+  'from', 'join', 'update', 'into', 'straight_join', 'insert', 'replace',
+]);
+
+// keywords followed by a single table reference rather than a list
+const SINGLE_TABLE_KEYWORDS = new Set(['into', 'join', 'insert', 'replace']);
+
+// modifiers between INSERT, REPLACE or UPDATE and the table reference
+const MODIFIERS = new Set(['low_priority', 'high_priority', 'delayed', 'ignore']);
+
+/**
+ * Split a query into identifiers and punctuation, dropping literals and comments.
+ */
+function tokenize(sql: string): string[] {
+  const tokens: string[] = [];
+  const pattern =
+    /(--[ \t][^\n]*|#[^\n]*|\/\*[\s\S]*?\*\/)|('(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*")|((?:`(?:[^`]|``)*`|[A-Za-z_$][\w$]*)(?:\s*\.\s*(?:`(?:[^`]|``)*`|[A-Za-z_$][\w$]*))*)|([(),;])/g;
+  for (const match of sql.matchAll(pattern)) {
+    if (match[3]) tokens.push(match[3]);
+    else if (match[4]) tokens.push(match[4]);
+    // literals separate tokens, so an alias is not read across them
+    else if (match[2]) tokens.push("''");
+  }
+  return tokens;
+}
+
+/**
+ * Normalize a table reference to its unquoted, lower-case table name, without schema.
+ */
+function tableName(token: string): string {
+  const parts = token.split(/\s*\.\s*/);
+  return parts[parts.length - 1].replace(/^`|`$/g, '').replace(/``/g, '`').toLowerCase();
+}
+
+/**
+ * Check whether a token is an identifier rather than a keyword or punctuation.
+ */
+function isIdentifier(token: string | undefined): boolean {
+  if (token === undefined) return false;
+  if (token.startsWith('`')) return true;
+  return /^[A-Za-z_$]/.test(token) && !RESERVED.has(token.toLowerCase());
+}
+
+/**
+ * Return the tables referenced by a query after FROM, JOIN, UPDATE, INTO, INSERT and
+ * REPLACE, skipping modifiers such as LOW_PRIORITY and IGNORE, and including
+ * comma-separated table lists and subqueries. Names are lower-case, without schema.
+ * @param sql - A MySQL query.
+ * @returns - The table names, without repetitions.
+ */
+export function extractTables(sql: string): string[] {
+  const tokens = tokenize(sql);
+  const tables = new Set<string>();
+  // whether each open parenthesis holds a query rather than an expression,
+  // so that EXTRACT(YEAR FROM date) does not count as a table
+  const scopes = [true];
+  let previous = '';
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const word = token.toLowerCase();
+    if (token === '(') {
+      const next = tokens[i + 1]?.toLowerCase();
+      scopes.push(next === 'select' || next === 'with');
+    } else if (token === ')') {
+      if (scopes.length > 1) scopes.pop();
+    } else if (TABLE_KEYWORDS.has(word) && scopes[scopes.length - 1]) {
+      // FOR UPDATE and ON DUPLICATE KEY UPDATE are not followed by a table
+      if (word === 'update' && (previous === 'for' || previous === 'key')) {
+        previous = word;
+        continue;
+      }
+      // read the comma-separated list of table references
+      let j = i + 1;
+      if (word === 'insert' || word === 'replace' || word === 'update')
+        while (MODIFIERS.has(tokens[j]?.toLowerCase())) j++;
+      while (j < tokens.length && isIdentifier(tokens[j])) {
+        const name = tableName(tokens[j]);
+        if (name !== 'dual') tables.add(name);
+        j++;
+        if (tokens[j]?.toLowerCase() === 'as') j++;
+        if (isIdentifier(tokens[j]) && tokens[j + 1] !== '(') j++;
+        if (tokens[j] !== ',' || SINGLE_TABLE_KEYWORDS.has(word)) break;
+        j++;
+      }
+    }
+    previous = word;
+  }
+  return [...tables];
+}
+
+/**
+ * Return the tables to invalidate after a statement. Writes call it before executing
+ * the statement too, to fail before writing rather than leave stale entries.
+ * @param statement - The statement that was executed.
+ * @param invalidateTables - The tables, or true for the tables the statement writes.
+ * @returns - The table names.
+ * @throws - If the tables are taken from the statement and none is found, since its
+ * writes would otherwise leave stale entries until they expire.
+ */
+export function tablesToInvalidate(
+  statement: string,
+  invalidateTables: string[] | boolean | undefined
+): string[] {
+  if (invalidateTables !== true) return invalidateTables || [];
+  const tables = extractTables(statement);
+  if (tables.length === 0)
+    throw new Error(
+      'No table found in the statement to invalidate, list them in invalidateTables'
+    );
+  return tables;
+}
@@ -0,0 +1,122 @@
+import type { ResultSetHeader } from 'mysql2/promise';
+import type Client from './client.js';
+import type { ExecuteOptions } from './client.js';
+import type { ExecutorConnection, QueryExecutor } from './executor.js';
+import { compileNamedQuery } from './named.js';
+import { tablesToInvalidate } from './tables.js';
+
+export interface PendingInvalidation {
+  /** The statement that made the entries stale, for table extraction. */
+  statement: string;
+  options: ExecuteOptions;
+}
+
+/**
+ * Statements run on a single connection inside a database transaction.
+ * Reads never use the cache, so they see the uncommitted writes of the transaction,
+ * and invalidations are queued until the outermost transaction commits.
+ */
+export default class Transaction {
+  connection: ExecutorConnection;
+  /** The invalidations applied once the transaction commits. */
+  pending: PendingInvalidation[] = [];
+  private client: Client;
+  private depth: number;
+
+  /**
+   * @param client - The client the transaction belongs to.
+   * @param connection - The connection holding the transaction.
+   * @param depth - The savepoint nesting level, 0 for the outermost transaction.
+   */
+  constructor(client: Client, connection: ExecutorConnection, depth = 0) {
+    this.client = client;
+    this.connection = connection;
+    this.depth = depth;
+  }
+
+  /**
+   * Execute a query without the cache.
+   * @param sql - A MySQL query, with `?` or `:name` placeholders.
+   * @param params - The parameters, an array for `?` or an object for `:name`.
+   * @returns - The query result.
+   */
+  async query<Row = any>(
+    sql: string,
+    params?: any[] | Record<string, any>
+  ): Promise<Row[]> {
+    const { sql: compiled, values } = compile(this.client.executor, sql, params);
+    return this.client.queryToPromise(compiled, values, this.connection);
+  }
+
+  /**
+   * Execute an INSERT, UPDATE or DELETE statement and queue the invalidation of the
+   * cache entries it affects until the transaction commits.
+   * @param sql - A MySQL statement, with `?` or `:name` placeholders.
+   * @param params - The parameters, an array for `?` or an object for `:name`.
+   * @param options - The cache entries to invalidate.
+   * @returns - The result header with the affected rows and insert id.
+   */
+  async execute<Result = ResultSetHeader>(
+    sql: string,
+    params?: any[] | Record<string, any>,
+    options: ExecuteOptions = {}
+  ): Promise<Result> {
+    const { sql: statement, values } = compile(this.client.executor, sql, params);
+    tablesToInvalidate(statement, options.invalidateTables);
+    const result: Result = await this.client.queryToPromise(
+      statement,
+      values,
+      this.connection
+    );
+    this.invalidate(options, statement);
+    return result;
+  }
+
+  /**
+   * Queue the invalidation of cache entries until the transaction commits.
+   * @param options - The cache entries to invalidate.
+   * @param statement - The statement whose tables are invalidated with `invalidateTables: true`.
+   * @throws - If the tables are taken from the statement and none is found.
+   */
+  invalidate(options: ExecuteOptions, statement = '') {
+    tablesToInvalidate(statement, options.invalidateTables);
+    this.pending.push({ statement, options });
+  }
+
+  /**
+   * Run a function in a nested transaction delimited by a savepoint. If it throws, its
+   * statements are rolled back to the savepoint and its invalidations discarded,
+   * otherwise they are kept for the outer transaction.
+   * @param fn - The function running the statements of the nested transaction.
+   * @returns - The result of the function.
+   */
+  async transaction<T>(fn: (tx: Transaction) => Promise<T>): Promise<T> {
+    const savepoint = `mrc_sp_${this.depth + 1}`;
+    const nested = new Transaction(this.client, this.connection, this.depth + 1);
+    await this.connection.query(`SAVEPOINT ${savepoint}`);
+    let result: T;
+    try {
+      result = await fn(nested);
+    } catch (err) {
+      await this.connection.query(`ROLLBACK TO SAVEPOINT ${savepoint}`);
+      throw err;
+    }
+    await this.connection.query(`RELEASE SAVEPOINT ${savepoint}`);
+    this.pending.push(...nested.pending);
+    return result;
+  }
+}
+
+/**
+ * Translate named placeholders to those of the executor if the parameters are given
+ * by name.
+ */
+function compile(
+  executor: QueryExecutor,
+  sql: string,
+  params?: any[] | Record<string, any>
+) {
+  return Array.isArray(params)
+    ? { sql, values: params }
+    : compileNamedQuery(sql, params, i => executor.placeholder(i));
+}
@@ -0,0 +1,81 @@
+import type { CacheOptions } from './client.js';
+
+export interface WarmQuery extends Omit<CacheOptions, 'mode'> {
+  /** A MySQL query. */
+  sql: string;
+  /** The parameters for each execution of the query. Default is a single execution without parameters. */
+  paramSets?: any[][];
+  /** The names of the query parameters. */
+  paramNames?: string[];
+  /** Expiration time in seconds for the query cache. Default is 24 hours. */
+  ttl?: number;
+}
+
+export interface WarmOptions {
+  /** Maximum number of queries running at the same time. Default is 4. */
+  concurrency?: number;
+}
+
+export interface RefreshAheadOptions extends WarmOptions {
+  /**
+   * Seconds before the earliest possible expiration at which entries are refreshed.
+   * Default is 10% of the ttl.
+   */
+  lead?: number;
+}
+
+/**
+ * Repeat tasks at fixed intervals, each run starting an interval after the start of
+ * the previous one, or once it is done if it takes longer. The timers do not keep the
+ * process alive.
+ */
+export default class RefreshScheduler {
+  private timers = new Set<NodeJS.Timeout>();
+  private stopped = false;
+  private onError: (err: unknown) => void;
+
+  /**
+   * @param onError - Called with the failures of the tasks.
+   */
+  constructor(onError: (err: unknown) => void) {
+    this.onError = onError;
+  }
+
+  /**
+   * Run a task now and then repeatedly.
+   * @param interval - Time in milliseconds between the starts of two runs.
+   * @param task - The task.
+   */
+  every(interval: number, task: () => Promise<void>) {
+    this._run(interval, task);
+  }
+
+  /**
+   * Cancel every pending run. A run in progress completes but is not repeated.
+   */
+  stop() {
+    this.stopped = true;
+    for (const timer of this.timers) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  /**
+   * Run a task, then schedule its next run.
+   */
+  private async _run(interval: number, task: () => Promise<void>) {
+    if (this.stopped) return;
+    const start = Date.now();
+    try {
+      await task();
+    } catch (err) {
+      this.onError(err);
+    }
+    if (this.stopped) return;
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      this._run(interval, task);
+    }, Math.max(0, start + interval - Date.now()));
+    timer.unref();
+    this.timers.add(timer);
+  }
+}
@@ -0,0 +1,56 @@
+import { MemoryStore, MRCClient } from '../src';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+const query = 'SELECT * FROM products WHERE id = $1';
+const inQuery = { sql: 'SELECT * FROM products WHERE id IN (?)', column: 'id' };
+
+let executor: any;
+let client: MRCClient;
+
+beforeEach(() => {
+  // an executor with numbered placeholders, like pg
+  executor = {
+    placeholder: (i: number) => `$${i + 1}`,
+    query: vi.fn(async (_: string, params: number[]) => params.map(id => ({ id }))),
+    getConnection: vi.fn(),
+  };
+  client = new MRCClient(executor, new MemoryStore());
+});
+
+it('queries the misses with one placeholder of the executor per value', async () => {
+  await client.queryManyWithCache(query, [[2]], ['ProductId'], 60, { inQuery });
+  const rows = await client.queryManyWithCache(query, [[1], [2], [3]], ['ProductId'], 60, {
+    inQuery,
+  });
+  expect(rows).toStrictEqual([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }]]);
+  expect(executor.query).toHaveBeenLastCalledWith(
+    'SELECT * FROM products WHERE id IN ($1, $2)',
+    [1, 3]
+  );
+});
+
+it('refuses inQuery for parameter sets of several parameters', async () => {
+  await expect(
+    client.queryManyWithCache(query, [[1], [2, 'EUR']], ['ProductId', 'Currency'], 60, {
+      inQuery,
+    })
+  ).rejects.toThrow('inQuery needs parameter sets of a single parameter');
+  await expect(
+    client.queryManyWithCache(query, [[1]], ['ProductId'], 60, {
+      inQuery: { sql: 'SELECT * FROM products WHERE id IN (?) OR sku = ?', column: 'id' },
+    })
+  ).rejects.toThrow('inQuery needs a query with a single ?');
+  expect(executor.query).not.toHaveBeenCalled();
+});
+
+it('refuses a batch function that does not return one result per set', async () => {
+  const fn = async (sets: any[][]) => sets.slice(1).map(([id]) => ({ id }));
+  await expect(
+    client.withCacheMany(fn, 'products', [[1], [2]], ['ProductId'], 60)
+  ).rejects.toThrow('Expected 2 results, one per parameter set, got 1');
+  // nothing is cached under the wrong key
+  const load = vi.fn(async (sets: any[][]) => sets.map(([id]) => ({ id })));
+  const results = await client.withCacheMany(load, 'products', [[1], [2]], ['ProductId'], 60);
+  expect(results).toStrictEqual([{ id: 1 }, { id: 2 }]);
+  expect(load).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,73 @@
+import { MemoryStore, MRCClient } from '../src';
+import { CircuitBreaker } from '../src/resilience';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+
+const query = 'SELECT * FROM users WHERE id = ?';
+
+let store: MemoryStore;
+let client: MRCClient;
+let log: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  store = new MemoryStore();
+  client = new MRCClient({}, store, {
+    resilience: { failureThreshold: 1, resetTimeout: 1000 },
+  });
+});
+
+afterEach(() => {
+  log.mockRestore();
+  vi.useRealTimers();
+});
+
+it('lets a single probe through once the reset timeout has passed', () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+  breaker.failure();
+  expect(breaker.allow()).toBe(false);
+  vi.advanceTimersByTime(1000);
+  expect(breaker.allow()).toBe(true);
+  expect(breaker.state).toBe('half-open');
+  expect(breaker.allow()).toBe(false);
+  breaker.success();
+  expect(breaker.allow()).toBe(true);
+});
+
+// JSON cannot encode a value that refers to itself
+const circular = () => {
+  const row: any = { id: 1 };
+  row.self = row;
+  return [row];
+};
+
+it('keeps probing after a value of the half-open circuit fails to encode', async () => {
+  const get = vi.spyOn(store, 'get').mockRejectedValueOnce(new Error('connection lost'));
+  expect(await client.readFromCache(query, [1], ['UserId'])).toBeNull();
+  vi.advanceTimersByTime(1000);
+
+  const set = vi.spyOn(store, 'set');
+  expect(await client.writeToCache(query, circular(), [1], ['UserId'])).toBeUndefined();
+  expect(set).not.toHaveBeenCalled();
+  expect(log).toHaveBeenLastCalledWith('Cache Error', expect.any(TypeError));
+
+  // the probe is still available and closes the circuit
+  expect(await client.writeToCache(query, [{ id: 1 }], [1], ['UserId'])).toBe('OK');
+  expect(await client.readFromCache(query, [1], ['UserId'])).toStrictEqual([{ id: 1 }]);
+  expect(get).toHaveBeenCalledTimes(2);
+});
+
+it('keeps probing after a batch of the half-open circuit fails to encode', async () => {
+  vi.spyOn(store, 'getMany').mockRejectedValueOnce(new Error('connection lost'));
+  const load = async (sets: any[][]) => sets.map(() => circular());
+  await client.withCacheMany(load, query, [[1]], ['UserId']);
+  vi.advanceTimersByTime(1000);
+
+  const setMany = vi.spyOn(store, 'setMany');
+  await client.withCacheMany(load, query, [[1], [2]], ['UserId'], 60, {
+    mode: 'write-only',
+  });
+  expect(setMany).not.toHaveBeenCalled();
+  expect(log).toHaveBeenLastCalledWith('Cache Error', expect.any(TypeError));
+  expect(await client.writeToCache(query, [{ id: 3 }], [3], ['UserId'])).toBe('OK');
+});
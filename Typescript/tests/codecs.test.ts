@@ -0,0 +1,44 @@
+import { Codec, MemoryStore, MRCClient } from '../src';
+import { expect, it, vi } from 'vitest';
+
+const query = 'SELECT * FROM users WHERE id = ?';
+
+const csv = (header: any): Codec => ({
+  header,
+  encode: (rows: any[]) => rows.map(row => `${row.id},${row.name}`).join('\n'),
+  decode: data =>
+    data
+      .toString()
+      .split('\n')
+      .map(line => {
+        const [id, name] = line.split(',');
+        return { id: Number(id), name };
+      }),
+});
+
+it('stores the entries of a custom codec behind its header', async () => {
+  const store = new MemoryStore();
+  const client = new MRCClient({}, store, { codec: csv(0x10) });
+  const rows = [{ id: 1, name: 'ada' }];
+  const fn = vi.fn().mockResolvedValue(rows);
+
+  await client.withCache(fn, query, [1], ['UserId']);
+  const [key] = (await store.scan('0')).keys;
+  expect((await store.get(key))?.[0]).toBe(0x10);
+  expect(await client.withCache(fn, query, [1], ['UserId'])).toStrictEqual(rows);
+  expect(fn).toHaveBeenCalledTimes(1);
+
+  // other clients cannot read its entries
+  const report = vi.spyOn(console, 'log').mockImplementation(() => {});
+  expect(await new MRCClient({}, store).readFromCache(query, [1], ['UserId'])).toBeNull();
+  expect(report.mock.lastCall?.[1].message).toBe('Unknown cache entry format 0x10');
+  report.mockRestore();
+});
+
+it('refuses custom codecs without a header of their own', () => {
+  for (const header of [undefined, 0x01, 0x03, 0x20, 0x10 + 0.5, '{'])
+    expect(() => new MRCClient({}, new MemoryStore(), { codec: csv(header) })).toThrow(
+      'Custom codecs need a header byte between 0x10 and 0x1f'
+    );
+  expect(() => new MRCClient({}, new MemoryStore(), { codec: csv(0x1f) })).not.toThrow();
+});
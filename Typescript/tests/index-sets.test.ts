@@ -0,0 +1,87 @@
+import { MemoryStore, MRCClient, MRCServer } from '../src';
+import { hashQuery } from '../src/keys';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+
+const query = 'SELECT * FROM orders WHERE StoreId = ?';
+
+let store: MemoryStore;
+let client: MRCClient;
+
+beforeEach(() => {
+  store = new MemoryStore({ now: () => 0 });
+  client = new MRCClient({}, store, { ttlJitter: 0 });
+  vi.spyOn(client, 'queryToPromise').mockImplementation(async () => [{ id: 1 }]);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+it('drops indexed entries without scanning', async () => {
+  await client.queryWithCache(query, [6], ['StoreId'], 60);
+  await client.queryWithCache(query, [7], ['StoreId'], 60);
+  const server = new MRCServer(store);
+  const scan = vi.spyOn(store, 'scan');
+
+  expect(await server.dropOutdatedCache(['StoreId'], [6])).toBe(1);
+  expect(scan).not.toHaveBeenCalled();
+  expect(await store.members('mrc:idx:StoreId=6')).toStrictEqual([]);
+  expect(await store.members('mrc:idx:StoreId=7')).toHaveLength(1);
+});
+
+it('finds the entries of older clients with legacyKeys', async () => {
+  // an older client writes legacy keys and no index sets
+  const legacyKey = `StoreId=6_${hashQuery(query)}`;
+  await store.set(legacyKey, '[]', 60);
+
+  expect(await new MRCServer(store).dropOutdatedCache(['StoreId'], [6])).toBe(0);
+  expect(await store.get(legacyKey)).not.toBeNull();
+  // scanning alone leaves legacy keys alone
+  const scanning = new MRCServer(store, { scanFallback: true });
+  expect(await scanning.dropOutdatedCache(['StoreId'], [6])).toBe(0);
+
+  const upgrading = new MRCServer(store, { legacyKeys: true });
+  expect(await upgrading.dropOutdatedCache(['StoreId'], [6])).toBe(1);
+  expect(await store.get(legacyKey)).toBeNull();
+});
+
+it('refuses legacyKeys without the scan fallback', () => {
+  expect(() => new MRCServer(store, { legacyKeys: true, scanFallback: false })).toThrow(
+    'legacyKeys needs scanFallback'
+  );
+});
+
+it('prunes the members of expired entries periodically', async () => {
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+  await client.queryWithCache(query, [6], ['StoreId'], 60);
+  await client.queryWithCache('SELECT id FROM orders WHERE StoreId = ?', [6], ['StoreId'], 3600);
+  const server = new MRCServer(store, { pruneInterval: 1000 });
+  // pruning starts with the first use of the store
+  await server.dropOutdatedCache(['StoreId'], [8]);
+  const prune = vi.spyOn(server, 'pruneIndexes');
+
+  store.advance(60000);
+  await vi.advanceTimersByTimeAsync(1000);
+  expect(prune).toHaveBeenCalledTimes(1);
+  expect(await store.members('mrc:idx:StoreId=6')).toHaveLength(1);
+
+  await server.close();
+  await vi.advanceTimersByTimeAsync(1000);
+  expect(prune).toHaveBeenCalledTimes(1);
+});
+
+it('records the tables of an entry only when asked', async () => {
+  await client.queryWithCache(query, [6], ['StoreId'], 60);
+  expect(await store.members('mrc:tbl:orders')).toStrictEqual([]);
+  await client.queryWithCache(query, [7], ['StoreId'], 60, { tables: ['orders'] });
+  expect(await store.members('mrc:tbl:orders')).toHaveLength(1);
+
+  const tracking = new MRCClient({}, store, { trackTables: true });
+  vi.spyOn(tracking, 'queryToPromise').mockImplementation(async () => []);
+  await tracking.queryWithCache(query, [8], ['StoreId'], 60);
+  expect(await store.members('mrc:tbl:orders')).toHaveLength(2);
+
+  // parameter filters intersect the table set with the index sets
+  expect(await new MRCServer(store).invalidateTables(['orders'], ['StoreId'], [8])).toBe(1);
+  expect(await store.members('mrc:tbl:orders')).toHaveLength(1);
+});
@@ -1,4 +1,14 @@
-import { MRCServer, MRCClient } from '../src';
+import {
+  MemoryStore,
+  MetricsCollector,
+  MRCServer,
+  MRCClient,
+  parseCacheKey,
+} from '../src';
+import LRUCache from '../src/lru';
+import { hashQuery } from '../src/keys';
+import { compileNamedQuery } from '../src/named';
+import { extractTables } from '../src/tables';
 import { afterAll, afterEach, beforeAll, expect, it, vi } from 'vitest'
 
 const redisConfig = { socket: { connectTimeout: 60000 } };
@@ -15,25 +25,56 @@ let mockServerRedisClient: any;
 beforeAll(async () => {
   // Create mock Redis client for MRCClient
   mockRedisClient = {
+    isReady: true,
     connect: vi.fn().mockResolvedValue(undefined),
     quit: vi.fn().mockResolvedValue(undefined),
     get: vi.fn().mockResolvedValue(null),
     set: vi.fn().mockResolvedValue('OK'),
+    eval: vi.fn().mockResolvedValue(1),
+    pTTL: vi.fn().mockResolvedValue(-2),
+    mGet: vi.fn(async (keys: string[]) => keys.map(() => null)),
+    multi: vi.fn(() => {
+      const pipeline: any = {
+        set: vi.fn(() => pipeline),
+        eval: vi.fn(() => pipeline),
+        execAsPipeline: vi.fn(async () => [
+          ...pipeline.set.mock.calls.map(() => 'OK'),
+          ...pipeline.eval.mock.calls.map(() => 1),
+        ]),
+      };
+      return pipeline;
+    }),
     flushAll: vi.fn().mockResolvedValue('OK'),
     on: vi.fn(),
   };
+  mockRedisClient.withTypeMapping = vi.fn(() => mockRedisClient);
 
   // Create mock Redis client for MRCServer
   mockServerRedisClient = {
+    isReady: true,
     connect: vi.fn().mockResolvedValue(undefined),
     quit: vi.fn().mockResolvedValue(undefined),
     scan: vi.fn(),
     del: vi.fn().mockResolvedValue(1),
+    publish: vi.fn().mockResolvedValue(1),
+    eval: vi.fn().mockResolvedValue(1),
+    sInter: vi.fn().mockResolvedValue([]),
+    sMembers: vi.fn().mockResolvedValue([]),
+    multi: vi.fn(() => {
+      const pipeline: any = {
+        unlink: vi.fn(() => pipeline),
+        sRem: vi.fn(() => pipeline),
+        execAsPipeline: vi.fn(async () =>
+          pipeline.unlink.mock.calls.map(() => 1)
+        ),
+      };
+      return pipeline;
+    }),
     on: vi.fn(),
   };
 
   server = new MRCServer(redisConfig);
-  client = new MRCClient({}, redisConfig);
+  client = new MRCClient({}, redisConfig, { trackTables: true });
   
   // Inject mock Redis clients
   client.redisClient = mockRedisClient as any;
@@ -73,15 +114,14 @@ it('tests if cache gets dropped', async () => {
   
   await client.queryWithCache(query, params, paramNames);
 
-  // Mock scan returning the cache key
-  mockServerRedisClient.scan.mockResolvedValueOnce({
-    cursor: '0',
-    keys: [cacheKey]
-  });
+  // Mock the index set listing the cache key
+  mockServerRedisClient.sInter.mockResolvedValueOnce([cacheKey]);
   
   const deletedEntries = await server.dropOutdatedCache(paramNames, params);
   expect(deletedEntries).toBe(1);
-  expect(mockServerRedisClient.del).toHaveBeenCalledWith(cacheKey);
+  const pipeline = mockServerRedisClient.multi.mock.results[0].value;
+  expect(pipeline.unlink).toHaveBeenCalledWith(cacheKey);
+  expect(mockServerRedisClient.scan).not.toHaveBeenCalled();
 
   // Verify cache no longer exists
   mockRedisClient.get.mockResolvedValueOnce(null);
@@ -162,6 +202,903 @@ it('uses cache with arbitrary query function', async () => {
   expect(spy).toHaveBeenCalledTimes(2);
 });
 
+it('deduplicates concurrent fills with single-flight', async () => {
+  const fn = vi.fn().mockResolvedValue(params);
+
+  const [a, b] = await Promise.all([
+    client.withCache(fn, query, params, paramNames, 60, { singleFlight: true }),
+    client.withCache(fn, query, params, paramNames, 60, { singleFlight: true }),
+  ]);
+  expect(a).toStrictEqual(params);
+  expect(b).toStrictEqual(params);
+  expect(fn).toHaveBeenCalledTimes(1);
+
+  // lock is acquired with NX and released with the owner token
+  const lockCall = mockRedisClient.set.mock.calls[0];
+  expect(lockCall[0]).toBe('mrc:lock:' + client.getKeyFromQuery(query, params, paramNames));
+  expect(lockCall[2]).toMatchObject({ NX: true, PX: 10000 });
+  expect(mockRedisClient.eval.mock.lastCall[1]).toStrictEqual({
+    keys: [lockCall[0]],
+    arguments: [lockCall[1]],
+  });
+});
+
+it('waits for the lock holder to fill the cache', async () => {
+  const fn = vi.fn().mockResolvedValue(params);
+  mockRedisClient.get
+    .mockResolvedValueOnce(null)
+    .mockResolvedValueOnce(null)
+    .mockResolvedValueOnce(JSON.stringify(params));
+  // lock held by another instance
+  mockRedisClient.set.mockResolvedValueOnce(null);
+
+  const r = await client.withCache(fn, query, params, paramNames, 60, {
+    singleFlight: { pollInterval: 1 },
+  });
+  expect(r).toStrictEqual(params);
+  expect(fn).not.toHaveBeenCalled();
+});
+
+it('falls back to querying when the wait times out', async () => {
+  const fn = vi.fn().mockResolvedValue(params);
+  mockRedisClient.set.mockResolvedValueOnce(null);
+
+  const r = await client.withCache(fn, query, params, paramNames, 60, {
+    singleFlight: { pollInterval: 1, waitTimeout: 5 },
+  });
+  expect(r).toStrictEqual(params);
+  expect(fn).toHaveBeenCalledTimes(1);
+});
+
+it('serves stale entries while refreshing in the background', async () => {
+  const fn = vi.fn().mockResolvedValue([5678]);
+  // entry is within the last 30 seconds of its life
+  mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(params));
+  mockRedisClient.pTTL.mockResolvedValueOnce(20000);
+
+  const r = await client.withCache(fn, query, params, paramNames, 60, {
+    staleWhileRevalidate: 30,
+  });
+  expect(r).toStrictEqual(params);
+
+  await vi.waitFor(() => expect(mockRedisClient.eval).toHaveBeenCalled());
+  expect(fn).toHaveBeenCalledTimes(1);
+  // refreshed entry keeps the stale window on top of the ttl
+  const setCall = mockRedisClient.set.mock.calls[1];
+  expect(setCall[1]).toBe(JSON.stringify([5678]));
+  expect(setCall[2].EX).toBeGreaterThanOrEqual(60 * 0.9 + 30);
+  expect(setCall[2].EX).toBeLessThanOrEqual(60 * 1.1 + 30);
+});
+
+it('does not refresh fresh entries', async () => {
+  const fn = vi.fn().mockResolvedValue([5678]);
+  mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(params));
+  mockRedisClient.pTTL.mockResolvedValueOnce(50000);
+
+  const r = await client.withCache(fn, query, params, paramNames, 60, {
+    staleWhileRevalidate: 30,
+  });
+  expect(r).toStrictEqual(params);
+  expect(fn).not.toHaveBeenCalled();
+  expect(mockRedisClient.set).not.toHaveBeenCalled();
+});
+
+it('adds cached entries to the parameter index sets', async () => {
+  const cacheKey = client.getKeyFromQuery(query, params, paramNames);
+  await client.queryWithCache(query, params, paramNames, 60);
+
+  const ex = mockRedisClient.set.mock.lastCall[2].EX;
+  expect(mockRedisClient.eval).toHaveBeenCalledTimes(2);
+  expect(mockRedisClient.eval.mock.calls[0][1]).toStrictEqual({
+    keys: ['mrc:idx:UserId=1234'],
+    arguments: [cacheKey, String(ex)],
+  });
+  // the table the query reads from is recorded the same way
+  expect(mockRedisClient.eval.mock.calls[1][1]).toStrictEqual({
+    keys: ['mrc:tbl:users'],
+    arguments: [cacheKey, String(ex)],
+  });
+});
+
+it('extracts the tables a query depends on', () => {
+  expect(
+    extractTables(
+      'SELECT o.id, EXTRACT(YEAR FROM o.created) FROM `shop`.`Orders` AS o, stores s ' +
+        "JOIN customers c ON c.id = o.customer_id WHERE o.note = 'from x' " +
+        '-- join comments\n' +
+        'AND o.id IN (SELECT order_id FROM order_items) FOR UPDATE'
+    )
+  ).toStrictEqual(['orders', 'stores', 'customers', 'order_items']);
+  expect(
+    extractTables(
+      'INSERT INTO orders (id) VALUES (1) ON DUPLICATE KEY UPDATE id = id'
+    )
+  ).toStrictEqual(['orders']);
+  expect(extractTables('SELECT 1 FROM DUAL')).toStrictEqual([]);
+  // INTO is optional and modifiers precede the table
+  expect(extractTables('INSERT orders (a) VALUES (1)')).toStrictEqual(['orders']);
+  expect(extractTables('INSERT IGNORE orders SET a = 1')).toStrictEqual(['orders']);
+  expect(
+    extractTables('INSERT LOW_PRIORITY IGNORE INTO orders SELECT * FROM carts')
+  ).toStrictEqual(['orders', 'carts']);
+  expect(extractTables('REPLACE DELAYED orders VALUES (1)')).toStrictEqual(['orders']);
+  expect(extractTables('UPDATE LOW_PRIORITY orders SET a = 1')).toStrictEqual(['orders']);
+  expect(extractTables('UPDATE IGNORE orders o, stores s SET o.a = s.a')).toStrictEqual([
+    'orders',
+    'stores',
+  ]);
+  // REPLACE and INSERT are also string functions
+  expect(extractTables("SELECT REPLACE(name, 'a', 'b') FROM users")).toStrictEqual([
+    'users',
+  ]);
+});
+
+it('invalidates the entries depending on a table', async () => {
+  const tableServer = new MRCServer(redisConfig);
+  tableServer.redisClient = mockServerRedisClient as any;
+  const invalidations: any[] = [];
+  tableServer.on('invalidation', event => invalidations.push(event));
+  const key = (storeId: number) =>
+    client.getKeyFromQuery('SELECT * FROM orders WHERE store = ?', [storeId], [
+      'StoreId',
+    ]);
+  mockServerRedisClient.sInter.mockResolvedValueOnce([key(6)]);
+
+  const deletedEntries = await tableServer.invalidateTables(
+    ['Orders'],
+    ['StoreId'],
+    [6]
+  );
+  expect(deletedEntries).toBe(1);
+  // the parameters filter through their index sets, not by reading the table set
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledWith([
+    'mrc:tbl:orders',
+    'mrc:idx:StoreId=6',
+  ]);
+  expect(mockServerRedisClient.sMembers).not.toHaveBeenCalled();
+  const pipeline = mockServerRedisClient.multi.mock.results[0].value;
+  expect(pipeline.unlink.mock.calls).toStrictEqual([[key(6)]]);
+  expect(pipeline.sRem).toHaveBeenCalledWith('mrc:tbl:orders', [key(6)]);
+  expect(pipeline.sRem).toHaveBeenCalledWith('mrc:idx:StoreId=6', [key(6)]);
+
+  // without parameters every entry of the table is dropped
+  mockServerRedisClient.sMembers.mockResolvedValueOnce([key(6), key(7)]);
+  expect(await tableServer.invalidateTables(['orders'])).toBe(2);
+  expect(mockServerRedisClient.sMembers).toHaveBeenCalledWith('mrc:tbl:orders');
+  expect(invalidations[0]).toMatchObject({
+    params: { StoreId: '6' },
+    tables: ['orders'],
+    deleted: 1,
+  });
+  expect(JSON.parse(mockServerRedisClient.publish.mock.lastCall[1])).toMatchObject({
+    tables: ['orders'],
+  });
+});
+
+it('drops cache through the index sets without scanning', async () => {
+  const indexedServer = new MRCServer(redisConfig, { scanFallback: false });
+  indexedServer.redisClient = mockServerRedisClient as any;
+  mockServerRedisClient.sInter.mockResolvedValueOnce(['a', 'b']);
+
+  const deletedEntries = await indexedServer.dropOutdatedCache(
+    ['StoreId', 'UserId'],
+    [6, 1]
+  );
+  expect(deletedEntries).toBe(2);
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledWith([
+    'mrc:idx:StoreId=6',
+    'mrc:idx:UserId=1',
+  ]);
+  const pipeline = mockServerRedisClient.multi.mock.results[0].value;
+  expect(pipeline.unlink.mock.calls).toStrictEqual([['a'], ['b']]);
+  expect(pipeline.sRem).toHaveBeenCalledWith('mrc:idx:StoreId=6', ['a', 'b']);
+  expect(mockServerRedisClient.scan).not.toHaveBeenCalled();
+});
+
+it('builds versioned keys with encoded parameter values', () => {
+  expect(client.getKeyFromQuery(query)).toMatch(/^mrc:v2:[0-9a-f]{40}$/);
+
+  const key = client.getKeyFromQuery(query, ['a_b=c:d', null], ['Name', 'Store Id']);
+  expect(key).toMatch(/^mrc:v2:Name=a_b%3Dc%3Ad:Store%20Id=null:[0-9a-f]{40}$/);
+  expect(parseCacheKey(key)).toStrictEqual({
+    format: 'v2',
+    params: [['Name', 'a_b=c:d'], ['Store Id', 'null']],
+    hash: key.slice(-40),
+  });
+});
+
+it('hashes every parameter value into the key', () => {
+  // unnamed parameters still tell entries apart
+  expect(client.getKeyFromQuery(query, [1])).not.toBe(client.getKeyFromQuery(query, [2]));
+  expect(client.getKeyFromQuery(query, [1, 'a'], ['UserId'])).not.toBe(
+    client.getKeyFromQuery(query, [1, 'b'], ['UserId'])
+  );
+  // canonical encoding is stable for dates, buffers and object key order
+  const date = new Date(Date.UTC(2024, 0, 1));
+  expect(
+    client.getKeyFromQuery(query, [date, Buffer.from('ab'), { b: 1, a: [null] }])
+  ).toBe(
+    client.getKeyFromQuery(query, [new Date(date), Buffer.from('ab'), { a: [null], b: 1 }])
+  );
+  // same hash as the Python implementation for the same values
+  expect(client.getKeyFromQuery('SELECT ?', [1, 'a', null, true, date, Buffer.from('ab')])).toBe(
+    'mrc:v2:749d28b87df0aae39601d56737aecc7fc28b94fb'
+  );
+  // numbers are formatted the same way in both implementations
+  expect(
+    client.getKeyFromQuery('SELECT ?', [1e21, 1e-7, 2 ** 60, 1.5e-10, -0.5], [
+      'Big',
+      'Small',
+      'Int',
+    ])
+  ).toBe(
+    'mrc:v2:Big=1000000000000000000000:Small=1e-7:Int=1152921504606846976:' +
+      '3308bc17286fcd1394cca668873e4613c57edd44'
+  );
+});
+
+it('rejects more parameter names than parameters', () => {
+  expect(() => client.getKeyFromQuery(query, [1], ['A', 'B'])).toThrow(
+    'Got 2 parameter names for 1 parameters'
+  );
+  expect(() => client.getKeyFromQuery(query, undefined, ['A'])).toThrow();
+});
+
+it('parses legacy keys', () => {
+  const hash = 'a'.repeat(40);
+  expect(parseCacheKey(`StoreId=6_Name=a_b_${hash}`)).toStrictEqual({
+    format: 'legacy',
+    params: [['StoreId', '6'], ['Name', 'a_b']],
+    hash,
+  });
+  expect(parseCacheKey('mrc:idx:StoreId=6')).toBeUndefined();
+  expect(parseCacheKey('session:1234')).toBeUndefined();
+
+  const legacyClient = new MRCClient({}, redisConfig, { keyFormat: 'legacy' });
+  expect(legacyClient.getKeyFromQuery(query, params, paramNames)).toBe(
+    'UserId=1234_' + legacyClient.getKeyFromQuery(query)
+  );
+});
+
+it('drops only exact parameter matches', async () => {
+  const hash = 'a'.repeat(40);
+  mockServerRedisClient.scan.mockResolvedValueOnce({
+    cursor: '0',
+    keys: [
+      `mrc:v2:StoreId=1:${hash}`,
+      `mrc:v2:StoreId=10:${hash}`,
+      `StoreId=1_${hash}`,
+      `StoreId=12_${hash}`,
+      `mrc:v2:Name=x_StoreId%3D1:${hash}`,
+      'mrc:idx:StoreId=1',
+    ],
+  });
+
+  const scanningServer = new MRCServer(redisConfig, { legacyKeys: true });
+  scanningServer.redisClient = mockServerRedisClient as any;
+  const deletedEntries = await scanningServer.dropOutdatedCache(['StoreId'], [1]);
+  expect(deletedEntries).toBe(2);
+  // the matches of a page are unlinked in one batch
+  expect(mockServerRedisClient.multi).toHaveBeenCalledTimes(1);
+  const pipeline = mockServerRedisClient.multi.mock.results[0].value;
+  expect(pipeline.unlink.mock.calls).toStrictEqual([
+    [`mrc:v2:StoreId=1:${hash}`],
+    [`StoreId=1_${hash}`],
+  ]);
+});
+
+it('returns the same types on cache hits as on misses', async () => {
+  const typedClient = new MRCClient({}, redisConfig, { typedValues: true });
+  typedClient.redisClient = mockRedisClient as any;
+  const rows = [
+    {
+      id: 1n,
+      createdAt: new Date('2024-01-02T03:04:05.678Z'),
+      data: Buffer.from([0, 1, 255]),
+      meta: { $mrc: 'date', v: 'not a date' },
+      tags: ['a', null],
+    },
+  ];
+  const fn = vi.fn().mockResolvedValue(rows);
+
+  const miss = await typedClient.withCache(fn, query, params, paramNames);
+  const stored = mockRedisClient.set.mock.lastCall[1];
+  expect(stored.startsWith('{"$mrc":1,"v":')).toBe(true);
+
+  mockRedisClient.get.mockResolvedValueOnce(stored);
+  const hit = await typedClient.withCache(fn, query, params, paramNames);
+  expect(fn).toHaveBeenCalledTimes(1);
+  expect(hit).toStrictEqual(miss);
+  expect(hit[0].createdAt).toBeInstanceOf(Date);
+  expect(Buffer.isBuffer(hit[0].data)).toBe(true);
+
+  // plain clients read typed entries too
+  mockRedisClient.get.mockResolvedValueOnce(stored);
+  expect(await client.readFromCache(query, params, paramNames)).toStrictEqual(miss);
+});
+
+it('encodes values with the configured codec and compression', async () => {
+  const rows = [{ id: 1n, createdAt: new Date('2024-01-02T03:04:05.678Z'), data: Buffer.from([0, 255]) }];
+  const packClient = new MRCClient({}, redisConfig, { codec: 'msgpack' });
+  packClient.redisClient = mockRedisClient as any;
+  const fn = vi.fn().mockResolvedValue(rows);
+
+  await packClient.withCache(fn, query, params, paramNames);
+  const packed = mockRedisClient.set.mock.lastCall[1];
+  expect(packed[0]).toBe(0x01);
+  mockRedisClient.get.mockResolvedValueOnce(packed);
+  expect(await packClient.withCache(fn, query, params, paramNames)).toStrictEqual(rows);
+  expect(fn).toHaveBeenCalledTimes(1);
+
+  // large values are compressed, small ones are stored as they are
+  const gzipClient = new MRCClient({}, redisConfig, {
+    compression: { algorithm: 'gzip', threshold: 100 },
+  });
+  gzipClient.redisClient = mockRedisClient as any;
+  const large = Array.from({ length: 50 }, (_, id) => ({ id, name: 'user' }));
+  await gzipClient.writeToCache(query, large as any, params, paramNames);
+  const compressed = mockRedisClient.set.mock.lastCall[1];
+  expect(compressed[0]).toBe(0x02);
+  expect(compressed.length).toBeLessThan(JSON.stringify(large).length);
+  await gzipClient.writeToCache(query, 'small', params, paramNames);
+  expect(mockRedisClient.set.mock.lastCall[1]).toBe('"small"');
+
+  // every client detects the format, plain JSON entries stay readable
+  mockRedisClient.get.mockResolvedValueOnce(compressed);
+  expect(await client.readFromCache(query, params, paramNames)).toStrictEqual(large);
+  mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(params));
+  expect(await packClient.readFromCache(query, params, paramNames)).toStrictEqual(params);
+});
+
+it('serves hot entries from the in-process cache', async () => {
+  const localClient = new MRCClient({}, redisConfig, { localCache: { ttl: 60 } });
+  localClient.redisClient = mockRedisClient as any;
+  const fn = vi.fn().mockResolvedValue(params);
+
+  // populated on misses
+  expect(await localClient.withCache(fn, query, params, paramNames)).toStrictEqual(params);
+  expect(await localClient.withCache(fn, query, params, paramNames)).toStrictEqual(params);
+  expect(fn).toHaveBeenCalledTimes(1);
+  expect(mockRedisClient.get).toHaveBeenCalledTimes(1);
+
+  // populated on hits, for no longer than the entry lives in redis
+  localClient.clearLocalCache();
+  vi.useFakeTimers();
+  try {
+    mockRedisClient.get.mockResolvedValueOnce(JSON.stringify([1]));
+    mockRedisClient.pTTL.mockResolvedValueOnce(1000);
+    expect(await localClient.readFromCache(query, params, paramNames)).toStrictEqual([1]);
+    expect(await localClient.readFromCache(query, params, paramNames)).toStrictEqual([1]);
+    expect(mockRedisClient.get).toHaveBeenCalledTimes(2);
+    vi.advanceTimersByTime(1000);
+    expect(await localClient.readFromCache(query, params, paramNames)).toBeNull();
+    expect(mockRedisClient.get).toHaveBeenCalledTimes(3);
+  } finally {
+    vi.useRealTimers();
+  }
+});
+
+it('evicts the least recently used local entries', () => {
+  const lru = new LRUCache({ maxEntries: 2, maxBytes: 20 });
+  lru.set('a', '1');
+  lru.set('b', '2');
+  lru.get('a');
+  lru.set('c', '3');
+  expect([lru.get('a'), lru.get('b'), lru.get('c')]).toStrictEqual(['1', undefined, '3']);
+
+  // entries beyond the byte budget are evicted or never stored
+  lru.set('d', 'x'.repeat(18));
+  expect(lru.size).toBe(1);
+  lru.set('e', 'x'.repeat(20));
+  expect(lru.get('e')).toBeUndefined();
+});
+
+it('publishes invalidations to subscribed clients', async () => {
+  const listeners: ((message: string) => void)[] = [];
+  const subscriber = {
+    subscribe: vi.fn(async (_: string, listener: any) => {
+      listeners.push(listener);
+    }),
+    unsubscribe: vi.fn(async () => {
+      listeners.length = 0;
+    }),
+  };
+  const subClient = new MRCClient({}, redisConfig, { localCache: true });
+  subClient.redisClient = mockRedisClient as any;
+  subClient.subscriber = subscriber as any;
+  // deliver published messages to the subscriber
+  mockServerRedisClient.publish.mockImplementation(async (_: string, message: string) => {
+    listeners.forEach(listener => listener(message));
+    return listeners.length;
+  });
+
+  const storeHandler = vi.fn();
+  const otherHandler = vi.fn();
+  const unsubscribe = await subClient.onInvalidate({ StoreId: 6 }, storeHandler);
+  await subClient.onInvalidate({ StoreId: 7 }, otherHandler);
+  expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+  expect(subscriber.subscribe.mock.calls[0][0]).toBe('mrc:invalidations');
+
+  // local entries of the invalidated parameters are evicted
+  const fn = vi.fn().mockResolvedValue([1]);
+  await subClient.withCache(fn, query, [6], ['StoreId']);
+  await subClient.withCache(fn, query, [7], ['StoreId']);
+
+  await server.dropOutdatedCache(['StoreId'], [6]);
+  await new Promise(resolve => setTimeout(resolve));
+  expect(storeHandler).toHaveBeenCalledWith({
+    params: { StoreId: '6' },
+    deleted: 0,
+    timestamp: expect.any(Number),
+  });
+  expect(otherHandler).not.toHaveBeenCalled();
+
+  await subClient.withCache(fn, query, [6], ['StoreId']);
+  await subClient.withCache(fn, query, [7], ['StoreId']);
+  expect(fn).toHaveBeenCalledTimes(3);
+
+  await unsubscribe();
+  expect(subscriber.unsubscribe).not.toHaveBeenCalled();
+  mockServerRedisClient.publish.mockResolvedValue(1);
+});
+
+it('bypasses the cache while redis is failing', async () => {
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+  const resilientClient = new MRCClient({}, redisConfig, {
+    resilience: { operationTimeout: 20, failureThreshold: 2, resetTimeout: 60000 },
+  });
+  resilientClient.redisClient = mockRedisClient as any;
+  const fn = vi.fn().mockResolvedValue(params);
+  try {
+    // a failed write does not fail the query
+    mockRedisClient.set.mockRejectedValueOnce(new Error('READONLY'));
+    expect(await resilientClient.withCache(fn, query, params, paramNames)).toStrictEqual(params);
+    expect(mockRedisClient.set).toHaveBeenCalledTimes(1);
+
+    // a hung read times out and the query goes straight to mysql
+    mockRedisClient.get.mockReturnValueOnce(new Promise(() => {}));
+    expect(await resilientClient.withCache(fn, query, params, paramNames)).toStrictEqual(params);
+    expect(mockRedisClient.set).toHaveBeenCalledTimes(1);
+
+    // the circuit is open: redis is not called until the reset timeout
+    expect(await resilientClient.withCache(fn, query, params, paramNames)).toStrictEqual(params);
+    expect(await resilientClient.readFromCache(query, params, paramNames)).toBeNull();
+    expect(fn).toHaveBeenCalledTimes(3);
+    expect(mockRedisClient.get).toHaveBeenCalledTimes(2);
+  } finally {
+    log.mockRestore();
+  }
+});
+
+it('reports failed invalidations', async () => {
+  mockServerRedisClient.sInter.mockRejectedValueOnce(new Error('connection lost'));
+  await expect(server.dropOutdatedCache(['StoreId'], [6])).rejects.toThrow('connection lost');
+
+  const offline = new MRCServer(redisConfig);
+  offline.redisClient = { ...mockServerRedisClient, isReady: false } as any;
+  await expect(offline.dropOutdatedCache(['StoreId'], [6])).rejects.toThrow('not ready');
+  expect(mockServerRedisClient.scan).not.toHaveBeenCalled();
+});
+
+it('emits cache events and exports metrics', async () => {
+  const observedClient = new MRCClient({}, redisConfig);
+  observedClient.redisClient = mockRedisClient as any;
+  const metrics = new MetricsCollector();
+  const detachClient = metrics.attach(observedClient);
+  const detachServer = metrics.attach(server);
+  const events: [string, any][] = [];
+  for (const name of ['hit', 'miss', 'write', 'error'] as const)
+    observedClient.on(name, (event: any) => events.push([name, event]));
+  const fn = vi.fn().mockResolvedValue(params);
+  const queryHash = hashQuery(query);
+
+  await observedClient.withCache(fn, query, params, paramNames);
+  mockRedisClient.get.mockResolvedValueOnce(JSON.stringify(params));
+  await observedClient.withCache(fn, query, params, paramNames);
+  mockRedisClient.get.mockRejectedValueOnce(new Error('connection lost'));
+  await observedClient.withCache(fn, query, params, paramNames);
+  expect(events.map(([name]) => name)).toStrictEqual(['miss', 'write', 'hit', 'error']);
+  const key = observedClient.getKeyFromQuery(query, params, paramNames);
+  expect(events[2][1]).toStrictEqual({
+    key,
+    queryHash,
+    duration: expect.any(Number),
+    size: JSON.stringify(params).length,
+    source: 'redis',
+  });
+  expect(events[3][1].error.message).toBe('connection lost');
+
+  await server.dropOutdatedCache(['StoreId'], [6]);
+
+  const text = metrics.toPrometheus();
+  expect(text).toContain(`mrc_cache_hits_total{query="${queryHash}",source="redis"} 1`);
+  expect(text).toContain(`mrc_cache_misses_total{query="${queryHash}"} 1`);
+  expect(text).toContain(`mrc_cache_writes_total{query="${queryHash}"} 1`);
+  expect(text).toContain('mrc_cache_errors_total 1');
+  expect(text).toContain('mrc_cache_invalidations_total 1');
+  expect(text).toContain('mrc_cache_operation_duration_seconds_count{operation="hit"} 1');
+  expect(text).toContain('# TYPE mrc_cache_operation_duration_seconds histogram');
+
+  detachClient();
+  detachServer();
+  expect(server.listenerCount('invalidation')).toBe(0);
+});
+
+it('queries with named parameters', async () => {
+  const sql = 'SELECT * FROM users WHERE StoreId = :StoreId AND (Active = :Active OR ManagerStore = :StoreId)';
+  const rows = await client.queryWithCache<number>({
+    sql,
+    params: { StoreId: 6, Active: 1 },
+    ttl: 60,
+  });
+  const compiled = 'SELECT * FROM users WHERE StoreId = ? AND (Active = ? OR ManagerStore = ?)';
+  expect(spy).toHaveBeenCalledWith(compiled, [6, 1, 6]);
+  expect(rows).toStrictEqual([6, 1, 6]);
+
+  const [key, , options] = mockRedisClient.set.mock.lastCall;
+  expect(key).toBe(client.getKeyFromQuery(compiled, [6, 1], ['StoreId', 'Active']));
+  expect(options.EX).toBeLessThanOrEqual(66);
+  expect(parseCacheKey(key)?.params).toStrictEqual([['StoreId', '6'], ['Active', '1']]);
+
+  await expect(client.queryWithCache({ sql, params: { StoreId: 6 } })).rejects.toThrow(
+    'Missing value for parameter :Active'
+  );
+});
+
+it('leaves literals, comments and casts alone when compiling named parameters', () => {
+  const sql = `SELECT ':a', "it\\'s :a", \`:a\`, x::int -- :a
+    /* :a */ # :a
+    FROM t WHERE a = :a AND b=:b_2`;
+  expect(compileNamedQuery(sql, { a: 1, b_2: 2 })).toStrictEqual({
+    sql: `SELECT ':a', "it\\'s :a", \`:a\`, x::int -- :a
+    /* :a */ # :a
+    FROM t WHERE a = ? AND b=?`,
+    values: [1, 2],
+    names: ['a', 'b_2'],
+  });
+});
+
+it('controls cache use per call', async () => {
+  const fn = vi.fn().mockResolvedValue(params);
+
+  // bypass: no read, no write
+  await client.withCache(fn, query, params, paramNames, 60, { mode: 'bypass' });
+  expect(mockRedisClient.get).not.toHaveBeenCalled();
+  expect(mockRedisClient.set).not.toHaveBeenCalled();
+
+  // read-only: cached values are returned, misses are not stored
+  mockRedisClient.get.mockResolvedValueOnce(JSON.stringify([1]));
+  expect(await client.withCache(fn, query, params, paramNames, 60, { mode: 'read-only' })).toStrictEqual([1]);
+  expect(await client.withCache(fn, query, params, paramNames, 60, { mode: 'read-only' })).toStrictEqual(params);
+  expect(mockRedisClient.set).not.toHaveBeenCalled();
+
+  // write-only: the cache is not read, the result is stored
+  expect(await client.withCache(fn, query, params, paramNames, 60, { mode: 'write-only' })).toStrictEqual(params);
+  expect(mockRedisClient.get).toHaveBeenCalledTimes(2);
+  expect(mockRedisClient.set).toHaveBeenCalledTimes(1);
+  expect(fn).toHaveBeenCalledTimes(3);
+});
+
+it('applies the configured ttl jitter', async () => {
+  const exactClient = new MRCClient({}, redisConfig, { ttlJitter: 0 });
+  exactClient.redisClient = mockRedisClient as any;
+  const fn = vi.fn().mockResolvedValue(params);
+
+  await exactClient.withCache(fn, query, params, paramNames, 100);
+  expect(mockRedisClient.set.mock.lastCall[2].EX).toBe(100);
+  await exactClient.writeToCache(query, 'value', params, paramNames, 100);
+  expect(mockRedisClient.set.mock.lastCall[2].EX).toBe(100);
+
+  await exactClient.withCache(fn, query, params, paramNames, 100, { ttlJitter: 0.5 });
+  const ex = mockRedisClient.set.mock.lastCall[2].EX;
+  expect(ex).toBeGreaterThanOrEqual(50);
+  expect(ex).toBeLessThanOrEqual(150);
+});
+
+it('invalidates the cache after executing a statement', async () => {
+  const execClient = new MRCClient({}, redisConfig);
+  execClient.server = new MRCServer(redisConfig, { scanFallback: false });
+  execClient.server.redisClient = mockServerRedisClient as any;
+  const header = { affectedRows: 1, insertId: 0 };
+  const execute = vi
+    .spyOn(execClient, 'queryToPromise')
+    .mockResolvedValueOnce(header)
+    .mockResolvedValueOnce(header)
+    .mockRejectedValueOnce(new Error('Duplicate entry'));
+
+  const result = await execClient.execute(
+    'UPDATE orders SET total = :total WHERE store = :store',
+    { total: 10, store: 6 },
+    { invalidate: { StoreId: 6 } }
+  );
+  expect(result).toBe(header);
+  expect(execute).toHaveBeenCalledWith(
+    'UPDATE orders SET total = ? WHERE store = ?',
+    [10, 6]
+  );
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledWith(['mrc:idx:StoreId=6']);
+
+  await execClient.execute('DELETE FROM orders WHERE id = ?', [1], {
+    invalidateTables: true,
+  });
+  expect(mockServerRedisClient.sMembers).toHaveBeenCalledWith('mrc:tbl:orders');
+
+  // nothing is invalidated when the statement fails
+  await expect(
+    execClient.execute('DELETE FROM orders', [], { invalidate: { StoreId: 6 } })
+  ).rejects.toThrow('Duplicate entry');
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledTimes(1);
+  expect(mockServerRedisClient.publish).toHaveBeenCalledTimes(2);
+  // a statement without a recognized table is not executed
+  await expect(
+    execClient.execute('CALL close_orders(?)', [6], { invalidateTables: true })
+  ).rejects.toThrow('No table found');
+  expect(execute).toHaveBeenCalledTimes(3);
+});
+
+it('defers invalidations until the transaction commits', async () => {
+  const txClient = new MRCClient({}, redisConfig);
+  txClient.server = new MRCServer(redisConfig, { scanFallback: false });
+  txClient.server.redisClient = mockServerRedisClient as any;
+  const connection = {
+    beginTransaction: vi.fn(),
+    commit: vi.fn(),
+    rollback: vi.fn(),
+    release: vi.fn(),
+    query: vi.fn(async () => [{ affectedRows: 1 }, undefined]),
+  };
+  txClient.mysqlPool = { getConnection: async () => connection } as any;
+
+  await txClient.transaction(async tx => {
+    await tx.execute('UPDATE orders SET total = 0 WHERE store = ?', [6], {
+      invalidate: { StoreId: 6 },
+    });
+    expect(mockServerRedisClient.sInter).not.toHaveBeenCalled();
+    // a failed nested transaction discards its invalidations
+    await expect(
+      tx.transaction(async inner => {
+        await inner.execute('DELETE FROM orders', [], { invalidate: { StoreId: 7 } });
+        throw new Error('abort');
+      })
+    ).rejects.toThrow('abort');
+    await tx.transaction(async inner => inner.invalidate({ invalidate: { StoreId: 8 } }));
+  });
+  expect(connection.query.mock.calls.map(c => c[0])).toStrictEqual([
+    expect.objectContaining({ sql: 'UPDATE orders SET total = 0 WHERE store = ?' }),
+    expect.objectContaining({ sql: 'SAVEPOINT mrc_sp_1' }),
+    expect.objectContaining({ sql: 'DELETE FROM orders' }),
+    expect.objectContaining({ sql: 'ROLLBACK TO SAVEPOINT mrc_sp_1' }),
+    expect.objectContaining({ sql: 'SAVEPOINT mrc_sp_1' }),
+    expect.objectContaining({ sql: 'RELEASE SAVEPOINT mrc_sp_1' }),
+  ]);
+  expect(connection.commit).toHaveBeenCalledTimes(1);
+  expect(mockServerRedisClient.sInter.mock.calls).toStrictEqual([
+    [['mrc:idx:StoreId=6']],
+    [['mrc:idx:StoreId=8']],
+  ]);
+
+  // a rolled back transaction invalidates nothing
+  await expect(
+    txClient.transaction(async tx => {
+      await tx.execute('DELETE FROM orders', [], { invalidate: { StoreId: 6 } });
+      throw new Error('abort');
+    })
+  ).rejects.toThrow('abort');
+  expect(connection.rollback).toHaveBeenCalledTimes(1);
+  expect(connection.release).toHaveBeenCalledTimes(2);
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledTimes(2);
+});
+
+it('refuses to store values computed before an invalidation', async () => {
+  const guardedClient = new MRCClient({}, redisConfig, { generations: true, trackTables: true });
+  guardedClient.redisClient = mockRedisClient as any;
+  mockRedisClient.mGet.mockResolvedValueOnce(['3', null]);
+  const cacheKey = guardedClient.getKeyFromQuery(query, params, paramNames);
+
+  // the script stores the value only while the generations are unchanged
+  mockRedisClient.eval.mockResolvedValueOnce(null);
+  const fn = vi.fn().mockResolvedValue(params);
+  expect(await guardedClient.withCache(fn, query, params, paramNames, 60)).toStrictEqual(params);
+  expect(mockRedisClient.mGet).toHaveBeenCalledWith([
+    'mrc:gen:idx:UserId=1234',
+    'mrc:gen:tbl:users',
+  ]);
+  const [script, { keys, arguments: args }] = mockRedisClient.eval.mock.calls[0];
+  expect(script).toContain("redis.call('set'");
+  expect(keys).toStrictEqual([cacheKey, 'mrc:gen:idx:UserId=1234', 'mrc:gen:tbl:users']);
+  expect(args.slice(2)).toStrictEqual(['3', '0']);
+  expect(mockRedisClient.set).not.toHaveBeenCalled();
+  // a refused value is not added to the index sets
+  expect(mockRedisClient.eval).toHaveBeenCalledTimes(1);
+});
+
+it('increments generations and deletes again after invalidating', async () => {
+  vi.useFakeTimers();
+  const racingServer = new MRCServer(redisConfig, {
+    scanFallback: false,
+    doubleDelete: 500,
+  });
+  racingServer.redisClient = mockServerRedisClient as any;
+
+  await racingServer.invalidateTables(['orders'], ['StoreId'], [6]);
+  expect(mockServerRedisClient.eval.mock.lastCall[1].keys).toStrictEqual([
+    'mrc:gen:tbl:orders',
+    'mrc:gen:idx:StoreId=6',
+  ]);
+  await racingServer.dropOutdatedCache(['StoreId'], [6]);
+  expect(mockServerRedisClient.eval.mock.lastCall[1].keys).toStrictEqual([
+    'mrc:gen:idx:StoreId=6',
+  ]);
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledTimes(2);
+
+  await vi.advanceTimersByTimeAsync(500);
+  expect(mockServerRedisClient.sInter).toHaveBeenCalledTimes(4);
+  vi.useRealTimers();
+});
+
+it('looks up several parameter sets at once', async () => {
+  const batchClient = new MRCClient({}, redisConfig, { trackTables: true });
+  batchClient.redisClient = mockRedisClient as any;
+  const keys = [[1], [2], [3]].map(p =>
+    batchClient.getKeyFromQuery(query, p, paramNames)
+  );
+  const execute = vi
+    .spyOn(batchClient, 'queryToPromise')
+    .mockImplementation(async (_, p) => [{ id: p![0] }]);
+  mockRedisClient.mGet.mockResolvedValueOnce([null, JSON.stringify([{ id: 2 }]), null]);
+
+  const rows = await batchClient.queryManyWithCache(query, [[1], [2], [3]], paramNames, 60, {
+    concurrency: 1,
+  });
+  expect(rows).toStrictEqual([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }]]);
+  expect(mockRedisClient.mGet).toHaveBeenCalledTimes(1);
+  expect(mockRedisClient.mGet).toHaveBeenCalledWith(keys);
+  expect(execute.mock.calls).toStrictEqual([[query, [1]], [query, [3]]]);
+  // the misses are written with one pipeline, then indexed with another
+  const [writes, indexes] = mockRedisClient.multi.mock.results.map((r: any) => r.value);
+  expect(writes.set.mock.calls.map((c: any) => c[0])).toStrictEqual([keys[0], keys[2]]);
+  expect(indexes.eval.mock.calls.map((c: any) => c[1].keys[0])).toStrictEqual([
+    'mrc:idx:UserId=1',
+    'mrc:tbl:users',
+    'mrc:idx:UserId=3',
+    'mrc:tbl:users',
+  ]);
+  expect(mockRedisClient.set).not.toHaveBeenCalled();
+
+  // misses can be loaded with one IN query, split back by column
+  execute.mockReset().mockResolvedValueOnce([{ id: 3 }, { id: 1 }, { id: 1 }]);
+  const grouped = await batchClient.queryManyWithCache(query, [[1], [2], [3]], paramNames, 60, {
+    inQuery: { sql: 'SELECT * FROM users WHERE id IN (?)', column: 'id' },
+  });
+  expect(execute).toHaveBeenCalledWith('SELECT * FROM users WHERE id IN (?, ?, ?)', [1, 2, 3]);
+  expect(grouped).toStrictEqual([[{ id: 1 }, { id: 1 }], [], [{ id: 3 }]]);
+});
+
+it('warms queries and refreshes them before they expire', async () => {
+  vi.useFakeTimers();
+  const warmClient = new MRCClient({}, redisConfig, { ttlJitter: 0 });
+  warmClient.redisClient = mockRedisClient as any;
+  const execute = vi
+    .spyOn(warmClient, 'queryToPromise')
+    .mockImplementation(async (_, p) => p)
+    .mockRejectedValueOnce(new Error('Unknown column'));
+  const errors: any[] = [];
+  warmClient.on('error', event => errors.push(event));
+
+  const warmed = await warmClient.warm(
+    [
+      { sql: query, paramSets: [[1], [2], [3]], paramNames, ttl: 100 },
+      { sql: 'SELECT COUNT(*) FROM users' },
+    ],
+    { concurrency: 2 }
+  );
+  expect(warmed).toBe(3);
+  expect(errors).toHaveLength(1);
+  expect(execute).toHaveBeenCalledTimes(4);
+  // warming replaces entries without reading them
+  expect(mockRedisClient.get).not.toHaveBeenCalled();
+  expect(mockRedisClient.set).toHaveBeenCalledTimes(3);
+
+  vi.clearAllMocks();
+  const stop = warmClient.refreshAhead(
+    [{ sql: query, paramSets: [[1]], paramNames, ttl: 100 }],
+    { lead: 10 }
+  );
+  await vi.advanceTimersByTimeAsync(0);
+  expect(mockRedisClient.set).toHaveBeenCalledTimes(1);
+  await vi.advanceTimersByTimeAsync(89000);
+  expect(mockRedisClient.set).toHaveBeenCalledTimes(1);
+  await vi.advanceTimersByTimeAsync(1000);
+  expect(mockRedisClient.set).toHaveBeenCalledTimes(2);
+  expect(mockRedisClient.set.mock.lastCall[2].EX).toBe(100);
+  stop();
+  await vi.advanceTimersByTimeAsync(90000);
+  expect(mockRedisClient.set).toHaveBeenCalledTimes(2);
+  vi.useRealTimers();
+});
+
+it('caches and invalidates entries in a memory store', async () => {
+  const store = new MemoryStore({ now: () => 0 });
+  const memoryClient = new MRCClient({}, store, { ttlJitter: 0, trackTables: true });
+  const memoryServer = new MRCServer(store);
+  const execute = vi
+    .spyOn(memoryClient, 'queryToPromise')
+    .mockImplementation(async () => [{ id: 1 }]);
+  const query = 'SELECT * FROM orders WHERE StoreId = ?';
+  const events: any[] = [];
+  await memoryClient.onInvalidate({ StoreId: 6 }, event => events.push(event));
+
+  expect(await memoryClient.queryWithCache(query, [6], ['StoreId'], 60)).toEqual([
+    { id: 1 },
+  ]);
+  await memoryClient.queryWithCache(query, [6], ['StoreId'], 60);
+  expect(execute).toHaveBeenCalledTimes(1);
+  const key = memoryClient.getKeyFromQuery(query, [6], ['StoreId']);
+  expect(await store.ttl(key)).toBe(60000);
+
+  // entries expire when the clock of the store moves past their ttl
+  store.advance(60000);
+  await memoryClient.queryWithCache(query, [6], ['StoreId'], 60);
+  expect(execute).toHaveBeenCalledTimes(2);
+
+  expect(await memoryServer.dropOutdatedCache(['StoreId'], [6])).toBe(1);
+  expect(await store.get(key)).toBeNull();
+  await new Promise(resolve => setImmediate(resolve));
+  expect(events).toMatchObject([{ params: { StoreId: '6' }, deleted: 1 }]);
+
+  await memoryClient.queryWithCache(query, [6], ['StoreId'], 60);
+  expect(await memoryServer.invalidateTables(['orders'])).toBe(1);
+  expect(await memoryServer.pruneIndexes()).toBe(1);
+
+  await memoryClient.closeRedisConnection();
+  await expect(store.get(key)).rejects.toThrow('Memory store is closed');
+});
+
+it('connects, checks health and closes its connections', async () => {
+  const executor = () => ({
+    placeholder: () => '?',
+    query: vi.fn(async () => [{ 1: 1 }]),
+    getConnection: vi.fn(),
+    close: vi.fn(async () => {}),
+  });
+  const [primary, replica] = [executor(), executor()];
+  const store = new MemoryStore();
+  const lifecycleClient = new MRCClient(primary, store, {
+    replicas: { nodes: [replica] },
+  });
+  await lifecycleClient.connect();
+  expect(store.isReady).toBe(true);
+  expect(primary.query).toHaveBeenCalledWith('SELECT 1');
+  expect(replica.query).toHaveBeenCalledWith('SELECT 1');
+
+  const report = await lifecycleClient.healthCheck();
+  expect(report.status).toBe('up');
+  expect(report.replicas).toHaveLength(1);
+  expect(report.database).toStrictEqual({ status: 'up', latency: expect.any(Number) });
+
+  // reads still work without a replica
+  replica.query.mockRejectedValueOnce(new Error('lost connection'));
+  const degraded = await lifecycleClient.healthCheck();
+  expect(degraded.status).toBe('degraded');
+  expect(degraded.replicas![0]).toMatchObject({ status: 'down', error: 'lost connection' });
+
+  // the store and the executors passed in are left to the caller
+  await lifecycleClient[Symbol.asyncDispose]();
+  expect(store.isOpen).toBe(true);
+  expect(primary.close).not.toHaveBeenCalled();
+  expect(replica.close).not.toHaveBeenCalled();
+
+  const lifecycleServer = new MRCServer(store);
+  expect((await lifecycleServer.healthCheck()).status).toBe('up');
+  await lifecycleServer[Symbol.asyncDispose]();
+  expect(store.isOpen).toBe(true);
+  await lifecycleServer.closeRedisConnection();
+  expect(store.isOpen).toBe(false);
+  await expect(lifecycleClient.connect()).resolves.toBeUndefined();
+  primary.query.mockRejectedValueOnce(new Error('access denied'));
+  await expect(lifecycleClient.connect()).rejects.toThrow('access denied');
+});
+
 afterEach(() => {
   vi.clearAllMocks();
 });
@@ -9,6 +9,7 @@ import { MRCClient, MRCServer } from '../src';
 import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
 import { createClient, RedisClientType } from 'redis';
 import crypto from 'crypto';
+import { hashQuery } from '../src/keys';
 
 const mysqlConfig = {
   host: process.env.MYSQL_HOST || 'localhost',
@@ -91,8 +92,8 @@ describe('TypeScript Cache Writing for Python Compatibility', () => {
 
     // Verify cache key format
     const cacheKey = client.getKeyFromQuery(query, params, paramNames);
-    const queryHash = crypto.createHash('sha1').update(query).digest('hex');
-    const expectedKey = `UserId=1_${queryHash}`;
+    const queryHash = hashQuery(query, params);
+    const expectedKey = `mrc:v2:UserId=1:${queryHash}`;
     expect(cacheKey).toBe(expectedKey);
 
     // Inspect cached data
@@ -172,7 +173,7 @@ describe('TypeScript Cache Writing for Python Compatibility', () => {
         paramNames: undefined,
         validate: (key: string, query: string) => {
           const hash = crypto.createHash('sha1').update(query).digest('hex');
-          expect(key).toBe(hash);
+          expect(key).toBe(`mrc:v2:${hash}`);
         }
       },
       {
@@ -180,8 +181,7 @@ describe('TypeScript Cache Writing for Python Compatibility', () => {
         params: [123],
         paramNames: ['UserId'],
         validate: (key: string, query: string) => {
-          const hash = crypto.createHash('sha1').update(query).digest('hex');
-          expect(key).toBe(`UserId=123_${hash}`);
+          expect(key).toBe(`mrc:v2:UserId=123:${hashQuery(query, [123])}`);
         }
       },
       {
@@ -189,8 +189,15 @@ describe('TypeScript Cache Writing for Python Compatibility', () => {
         params: [6, 456],
         paramNames: ['StoreId', 'UserId'],
         validate: (key: string, query: string) => {
-          const hash = crypto.createHash('sha1').update(query).digest('hex');
-          expect(key).toBe(`StoreId=6_UserId=456_${hash}`);
+          expect(key).toBe(`mrc:v2:StoreId=6:UserId=456:${hashQuery(query, [6, 456])}`);
+        }
+      },
+      {
+        query: 'SELECT * FROM users WHERE name = ?',
+        params: ['a_b=c:d'],
+        paramNames: ['Name'],
+        validate: (key: string, query: string) => {
+          expect(key).toBe(`mrc:v2:Name=a_b%3Dc%3Ad:${hashQuery(query, ['a_b=c:d'])}`);
         }
       },
       {
@@ -198,8 +205,7 @@ describe('TypeScript Cache Writing for Python Compatibility', () => {
         params: ['test@example.com'],
         paramNames: ['Email'],
         validate: (key: string, query: string) => {
-          const hash = crypto.createHash('sha1').update(query).digest('hex');
-          expect(key).toBe(`Email=test@example.com_${hash}`);
+          expect(key).toBe(`mrc:v2:Email=test%40example.com:${hashQuery(query, ['test@example.com'])}`);
         }
       },
     ];
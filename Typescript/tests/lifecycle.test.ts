@@ -0,0 +1,47 @@
+import { MemoryStore, MRCClient, MRCServer, MySQLExecutor, RedisStore } from '../src';
+import { afterEach, expect, it, vi } from 'vitest';
+
+const executor = () => ({
+  placeholder: () => '?',
+  query: vi.fn(async () => ({ affectedRows: 1 })),
+  getConnection: vi.fn(),
+  close: vi.fn(async () => {}),
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+it('closes the pools and the store it created', async () => {
+  const closePool = vi.spyOn(MySQLExecutor.prototype, 'close');
+  const closeStore = vi.spyOn(RedisStore.prototype, 'close');
+  const passed = executor();
+  const client = new MRCClient({ host: 'primary' }, { socket: { port: 6390 } }, {
+    replicas: { nodes: [{ host: 'replica' }, passed] },
+  });
+
+  await client.close();
+  expect(closePool).toHaveBeenCalledTimes(2);
+  expect(closeStore).toHaveBeenCalledTimes(1);
+  expect(passed.close).not.toHaveBeenCalled();
+});
+
+it('leaves a shared store open and drops its subscriptions', async () => {
+  const store = new MemoryStore();
+  const primary = executor();
+  const client = new MRCClient(primary, store);
+  const events: unknown[] = [];
+  await client.onInvalidate({}, event => {
+    events.push(event);
+  });
+  // invalidating creates a server on the same store
+  await client.execute('UPDATE users SET name = ?', ['x'], { invalidate: { UserId: 1 } });
+
+  await client.close();
+  expect(store.isOpen).toBe(true);
+  expect(primary.close).not.toHaveBeenCalled();
+  await new MRCServer(store).dropOutdatedCache(['UserId'], [1]);
+  await new Promise(resolve => setImmediate(resolve));
+  // only the invalidation from before closing was received
+  expect(events).toHaveLength(1);
+});
@@ -0,0 +1,132 @@
+import { AddressInfo } from 'net';
+import { createServer } from 'mysql2';
+import { MemoryStore, MRCClient, MySQLExecutor } from '../src';
+import { afterAll, beforeAll, expect, it } from 'vitest';
+
+// MySQL column type codes and the binary character set used by JSON columns
+const NEWDECIMAL = 0xf6;
+const LONGLONG = 0x08;
+const TINY = 0x01;
+const VAR_STRING = 0xfd;
+const JSON_TYPE = 0xf5;
+const BINARY = 63;
+const UTF8MB4 = 45;
+
+const column = (name: string, columnType: number, columnLength: number, characterSet = BINARY) => ({
+  catalog: 'def',
+  schema: 'test',
+  table: 't',
+  orgTable: 't',
+  name,
+  orgName: name,
+  characterSet,
+  columnLength,
+  columnType,
+  flags: 0,
+  decimals: 0,
+});
+
+// the rows as MySQL sends them in the text protocol
+const columns = [
+  column('zip', VAR_STRING, 40, UTF8MB4),
+  column('price', NEWDECIMAL, 22),
+  column('big', LONGLONG, 20),
+  column('flag', TINY, 1),
+  column('doc', JSON_TYPE, 4294967295),
+];
+const rows = [
+  ['00123', '12.50', '9007199254740993', '1', '{"a": 1}'],
+  ['4', '12345678901234567.89', '2', '0', '"abc"'],
+  ['5', '1.5', '3', '0', '123'],
+  ['6', null, null, null, null],
+];
+
+let server: any;
+let mysqlConfig: { host: string; port: number; user: string };
+
+beforeAll(async () => {
+  // a MySQL protocol server answering every query with the same result set, so the
+  // rows go through the real mysql2 parsers
+  server = createServer();
+  server.on('connection', (connection: any) => {
+    connection.on('error', () => {});
+    connection.serverHandshake({
+      protocolVersion: 10,
+      serverVersion: '8.0.0',
+      connectionId: 1,
+      statusFlags: 2,
+      characterSet: UTF8MB4,
+      capabilityFlags: 0xaa20f,
+      authCallback: (_: unknown, done: (err: null) => void) => {
+        done(null);
+        connection.sequenceId = 0;
+      },
+    });
+    connection.on('query', () => {
+      connection.writeColumns(columns);
+      rows.forEach(row => connection.writeTextRow(row));
+      connection.writeEof();
+      connection.sequenceId = 0;
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server._server.address() as AddressInfo;
+  mysqlConfig = { host: '127.0.0.1', port, user: 'test' };
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+it('keeps every digit by default and parses JSON once', async () => {
+  const executor = new MySQLExecutor(mysqlConfig);
+  expect(await executor.query('SELECT 1')).toStrictEqual([
+    { zip: '00123', price: '12.50', big: '9007199254740993', flag: 1, doc: { a: 1 } },
+    { zip: '4', price: '12345678901234567.89', big: '2', flag: 0, doc: 'abc' },
+    { zip: '5', price: '1.5', big: '3', flag: 0, doc: 123 },
+    { zip: '6', price: null, big: null, flag: null, doc: null },
+  ]);
+  await executor.close();
+});
+
+it('applies the normalize policy to the driver values', async () => {
+  const executor = new MySQLExecutor(mysqlConfig, {
+    decimal: 'safe',
+    bigint: 'bigint',
+    tinyint1: 'boolean',
+    json: 'string',
+  });
+  expect(await executor.query('SELECT 1')).toStrictEqual([
+    { zip: '00123', price: 12.5, big: 9007199254740993n, flag: true, doc: '{"a": 1}' },
+    { zip: '4', price: '12345678901234567.89', big: 2n, flag: false, doc: '"abc"' },
+    { zip: '5', price: 1.5, big: 3n, flag: false, doc: '123' },
+    { zip: '6', price: null, big: null, flag: null, doc: null },
+  ]);
+  await executor.close();
+});
+
+it('keeps the big number settings of the pool configuration', async () => {
+  const executor = new MySQLExecutor(
+    { ...mysqlConfig, bigNumberStrings: false },
+    { bigint: 'safe' }
+  );
+  const [first] = await executor.query('SELECT 1');
+  // mysql2 returns the unsafe integer as a string itself
+  expect(first.big).toBe('9007199254740993');
+  await executor.close();
+
+  const uri = `mysql://test@127.0.0.1:${mysqlConfig.port}/test?supportBigNumbers=false`;
+  const lossy = new MySQLExecutor(uri, { bigint: 'number' });
+  const [lossyFirst] = await lossy.query('SELECT 1');
+  expect(lossyFirst.big).toBe(9007199254740992);
+  await lossy.close();
+});
+
+it('returns the same rows on cache hits as on misses', async () => {
+  const cacheClient = new MRCClient(mysqlConfig, new MemoryStore());
+  const miss = await cacheClient.queryWithCache('SELECT 1', [], [], 60);
+  const hit = await cacheClient.queryWithCache('SELECT 1', [], [], 60);
+  expect(hit).toStrictEqual(miss);
+  expect(miss[1].doc).toBe('abc');
+  await cacheClient.close();
+});
@@ -0,0 +1,114 @@
+import { MemoryStore, MRCClient, PgExecutor } from '../src';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+// field type ids and values as `pg` returns them: INT8 and NUMERIC as text, JSON parsed
+const INT4 = 23;
+const INT8 = 20;
+const NUMERIC = 1700;
+const JSON_TYPE = 114;
+const JSONB = 3802;
+
+const resultSet = {
+  rowCount: 2,
+  rows: [
+    { id: 1, big: '9007199254740993', total: '12.50', doc: { a: 1 }, raw: 'abc' },
+    { id: 2, big: '2', total: '1.5', doc: null, raw: 123 },
+  ],
+  fields: [
+    { name: 'id', dataTypeID: INT4 },
+    { name: 'big', dataTypeID: INT8 },
+    { name: 'total', dataTypeID: NUMERIC },
+    { name: 'doc', dataTypeID: JSONB },
+    { name: 'raw', dataTypeID: JSON_TYPE },
+  ],
+};
+
+let query: ReturnType<typeof vi.fn>;
+let release: ReturnType<typeof vi.fn>;
+let pool: any;
+
+beforeEach(() => {
+  query = vi.fn(async ({ text }: { text: string }) =>
+    text.startsWith('SELECT') ? resultSet : { rowCount: 2, rows: [], fields: [] }
+  );
+  release = vi.fn();
+  pool = {
+    query,
+    connect: async () => ({ query, release }),
+    end: vi.fn(async () => {}),
+  };
+});
+
+it('keeps every digit by default and the parsed JSON values', async () => {
+  const executor = new PgExecutor(pool);
+  expect(await executor.query('SELECT * FROM orders')).toStrictEqual([
+    { id: 1, big: '9007199254740993', total: '12.50', doc: { a: 1 }, raw: 'abc' },
+    { id: 2, big: '2', total: '1.5', doc: null, raw: 123 },
+  ]);
+});
+
+it('applies the normalize policy to the driver values', async () => {
+  const executor = new PgExecutor(pool, {
+    normalize: { bigint: 'bigint', decimal: 'number', json: 'string' },
+  });
+  expect(await executor.query('SELECT * FROM orders')).toStrictEqual([
+    { id: 1, big: 9007199254740993n, total: 12.5, doc: '{"a":1}', raw: '"abc"' },
+    { id: 2, big: 2n, total: 1.5, doc: null, raw: '123' },
+  ]);
+});
+
+it('returns the row count of statements and one result per statement', async () => {
+  const executor = new PgExecutor(pool);
+  expect(await executor.query('UPDATE orders SET total = 0')).toStrictEqual({
+    affectedRows: 2,
+  });
+  query.mockResolvedValueOnce([resultSet, { rowCount: null, rows: [], fields: [] }]);
+  const [rows, statement] = await executor.query('SELECT 1; SET x = 1');
+  expect(rows).toHaveLength(2);
+  expect(statement).toStrictEqual({ affectedRows: 0 });
+});
+
+it('compiles named parameters to numbered placeholders', async () => {
+  const client = new MRCClient(new PgExecutor(pool), new MemoryStore());
+  await client.queryWithCache({
+    sql: 'SELECT * FROM orders WHERE StoreId = :store AND total > :min::numeric',
+    params: { store: 6, min: 10 },
+  });
+  expect(query).toHaveBeenCalledWith({
+    text: 'SELECT * FROM orders WHERE StoreId = $1 AND total > $2::numeric',
+    values: [6, 10],
+  });
+  expect(client.getMySQLPool()).toBeUndefined();
+});
+
+it('runs transactions on one client of the pool', async () => {
+  const client = new MRCClient(new PgExecutor(pool), new MemoryStore());
+  const result = await client.transaction(tx =>
+    tx.execute('UPDATE orders SET total = 0 WHERE StoreId = :store', { store: 6 })
+  );
+  expect(result).toStrictEqual({ affectedRows: 2 });
+  expect(query.mock.calls.map(c => c[0].text)).toStrictEqual([
+    'BEGIN',
+    'UPDATE orders SET total = 0 WHERE StoreId = $1',
+    'COMMIT',
+  ]);
+
+  query.mockClear();
+  await expect(
+    client.transaction(async tx => {
+      await tx.execute('UPDATE orders SET total = 0');
+      throw new Error('abort');
+    })
+  ).rejects.toThrow('abort');
+  expect(query.mock.calls.map(c => c[0].text)).toStrictEqual([
+    'BEGIN',
+    'UPDATE orders SET total = 0',
+    'ROLLBACK',
+  ]);
+  expect(release).toHaveBeenCalledTimes(2);
+});
+
+it('ends the pool on close', async () => {
+  await new PgExecutor(pool).close();
+  expect(pool.end).toHaveBeenCalled();
+});
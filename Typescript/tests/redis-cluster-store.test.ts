@@ -0,0 +1,163 @@
+import { buildCacheKey, MRCServer, RedisClusterStore } from '../src';
+import { hashQuery } from '../src/keys';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+const mocked = vi.hoisted(() => ({ clusters: [] as any[], unreachable: false }));
+
+vi.mock('redis', async importOriginal => ({
+  ...(await importOriginal<typeof import('redis')>()),
+  createCluster: vi.fn((options: unknown) => {
+    const unreachable = mocked.unreachable;
+    const cluster: any = {
+      options,
+      isOpen: false,
+      masters: [{ address: 'a' }, { address: 'b' }],
+      on: vi.fn(),
+      connect: vi.fn(async () => {
+        if (unreachable) throw new Error('no seed node answered');
+        cluster.isOpen = true;
+      }),
+      close: vi.fn(async () => {}),
+      nodeClient: vi.fn(async () => ({ ping: vi.fn(async () => 'PONG') })),
+      sMembers: vi.fn(async (set: string) => (set === 'a' ? ['1', '2', '3'] : ['3', '2'])),
+      subscribe: vi.fn(async () => {}),
+      unsubscribe: vi.fn(async () => {}),
+    };
+    mocked.clusters.push(cluster);
+    return cluster;
+  }),
+}));
+
+const query = 'SELECT * FROM users WHERE id = ?';
+const rootNodes = [{ url: 'redis://10.0.0.1:6379' }];
+
+beforeEach(() => {
+  mocked.clusters.length = 0;
+  mocked.unreachable = false;
+});
+
+it('is ready once the topology is known', async () => {
+  const store = new RedisClusterStore({ rootNodes }, { minReconnectDelay: 50 });
+  const connecting = store.connect();
+  const [cluster] = mocked.clusters;
+  expect(cluster.options.defaults.socket.reconnectStrategy).toBeTypeOf('function');
+  expect(store.isOpen).toBe(true);
+  expect(store.isReady).toBe(false);
+  await connecting;
+  expect(store.isReady).toBe(true);
+
+  await store.close();
+  expect(cluster.close).toHaveBeenCalled();
+  expect(store.isOpen).toBe(false);
+});
+
+it('starts over after failing to reach the seed nodes', async () => {
+  const store = new RedisClusterStore({ rootNodes });
+  mocked.unreachable = true;
+  await expect(store.connect()).rejects.toThrow('no seed node answered');
+  expect(store.isOpen).toBe(false);
+
+  mocked.unreachable = false;
+  await store.connect();
+  expect(mocked.clusters).toHaveLength(2);
+  expect(store.isReady).toBe(true);
+});
+
+it('reports the errors of the nodes without dropping the cluster', async () => {
+  const store = new RedisClusterStore({ rootNodes });
+  const errors: unknown[] = [];
+  store.on('error', (err, source) => errors.push([err, source]));
+  await store.connect();
+  const [cluster] = mocked.clusters;
+  const [event, listener] = cluster.on.mock.calls[0];
+  expect(event).toBe('error');
+  listener(new Error('node a lost'));
+  expect(errors).toStrictEqual([[new Error('node a lost'), 'client']]);
+  expect(store.isReady).toBe(true);
+});
+
+it('pings every master and intersects sets across slots', async () => {
+  const store = new RedisClusterStore({ rootNodes });
+  await store.connect();
+  const [cluster] = mocked.clusters;
+  await store.ping();
+  expect(cluster.nodeClient.mock.calls.map((c: any) => c[0].address)).toStrictEqual([
+    'a',
+    'b',
+  ]);
+  expect(await store.intersect(['a', 'b'])).toStrictEqual(['2', '3']);
+
+  // a master that does not answer makes the cluster unhealthy
+  cluster.nodeClient.mockRejectedValueOnce(new Error('node a lost'));
+  await expect(store.ping()).rejects.toThrow('node a lost');
+});
+
+it('subscribes through the pub/sub connection of the cluster', async () => {
+  const store = new RedisClusterStore({ rootNodes });
+  await store.connect();
+  const [cluster] = mocked.clusters;
+  const listener = () => {};
+  await store.subscribe('mrc:invalidate', listener);
+  await store.unsubscribe('mrc:invalidate', listener);
+  expect(cluster.subscribe).toHaveBeenCalledWith('mrc:invalidate', listener);
+  expect(cluster.unsubscribe).toHaveBeenCalledWith('mrc:invalidate', listener);
+  expect(mocked.clusters).toHaveLength(1);
+});
+
+it('invalidates entries on every master of a cluster', async () => {
+  const [indexed, unindexed, paged, other, replicated] = [
+    [6, 1],
+    [6, 2],
+    [6, 3],
+    [7, 1],
+    [6, 4],
+  ].map(p => buildCacheKey(hashQuery(query), p, ['StoreId', 'UserId']));
+  // master a answers in two pages, the replica holds a copy of master b
+  const pages: Record<string, Record<string, { cursor: string; keys: string[] }>> = {
+    a: { '0': { cursor: '17', keys: [indexed, other] }, '17': { cursor: '0', keys: [paged] } },
+    b: { '0': { cursor: '0', keys: [unindexed] } },
+    r: { '0': { cursor: '0', keys: [unindexed, replicated] } },
+  };
+  const scans: string[] = [];
+  const cluster: any = {
+    isOpen: true,
+    masters: [{ address: 'a' }, { address: 'b' }],
+    replicas: [{ address: 'r' }],
+    nodeClient: vi.fn(async ({ address }) => ({
+      scan: async (cursor: string) => {
+        scans.push(`${address}:${cursor}`);
+        return pages[address][cursor];
+      },
+    })),
+    sMembers: vi.fn(async (set: string) => (set === 'mrc:idx:StoreId=6' ? [indexed] : [])),
+    unlink: vi.fn().mockResolvedValue(1),
+    sRem: vi.fn().mockResolvedValue(1),
+    del: vi.fn().mockResolvedValue(1),
+    eval: vi.fn().mockResolvedValue(1),
+    publish: vi.fn().mockResolvedValue(1),
+    get: vi.fn().mockResolvedValue(null),
+    set: vi.fn().mockResolvedValue('OK'),
+  };
+  const store = new RedisClusterStore({ rootNodes: [] });
+  store.cluster = cluster;
+  const clusterServer = new MRCServer(store, { scanFallback: true });
+
+  expect(await clusterServer.dropOutdatedCache(['StoreId'], [6])).toBe(3);
+  // every page of every master is scanned and replicas are skipped
+  expect(scans).toStrictEqual(['a:0', 'a:17', 'b:0']);
+  expect(cluster.nodeClient).not.toHaveBeenCalledWith({ address: 'r' });
+  expect(cluster.unlink).toHaveBeenCalledWith(indexed);
+  expect(cluster.unlink).toHaveBeenCalledWith(unindexed);
+  expect(cluster.unlink).toHaveBeenCalledWith(paged);
+  expect(cluster.unlink).not.toHaveBeenCalledWith(other);
+  expect(cluster.unlink).not.toHaveBeenCalledWith(replicated);
+  // multi-key commands are split per key to stay within a slot
+  expect(cluster.eval.mock.calls[0][1].keys).toStrictEqual(['mrc:gen:idx:StoreId=6']);
+
+  // a value whose counter changed while it was stored is deleted again
+  cluster.get.mockResolvedValueOnce(null).mockResolvedValueOnce('1');
+  const guard = { keys: ['mrc:gen:idx:StoreId=6'], values: ['0'] };
+  expect(await store.set(indexed, 'rows', 60, guard)).toBe(false);
+  expect(cluster.set).toHaveBeenCalledWith(indexed, 'rows', { EX: 60 });
+  expect(cluster.del).toHaveBeenLastCalledWith(indexed);
+});
@@ -0,0 +1,93 @@
+import { MRCClient, RedisSentinelStore } from '../src';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+const sentinels = vi.hoisted(() => [] as any[]);
+
+vi.mock('redis', async importOriginal => ({
+  ...(await importOriginal<typeof import('redis')>()),
+  createSentinel: vi.fn((options: unknown) => {
+    const sentinel: any = {
+      options,
+      isOpen: false,
+      isReady: false,
+      on: vi.fn(),
+      connect: vi.fn(async () => {
+        sentinel.isOpen = sentinel.isReady = true;
+      }),
+      close: vi.fn(async () => {}),
+      destroy: vi.fn(async () => {}),
+      get: vi.fn().mockResolvedValue(Buffer.from('rows')),
+      set: vi.fn().mockResolvedValue('OK'),
+      publish: vi.fn().mockResolvedValue(1),
+      subscribe: vi.fn(async () => {}),
+      unsubscribe: vi.fn(async () => {}),
+    };
+    sentinel.withTypeMapping = vi.fn(() => sentinel);
+    sentinels.push(sentinel);
+    return sentinel;
+  }),
+}));
+
+const sentinelConfig = {
+  name: 'mymaster',
+  sentinelRootNodes: [{ host: '10.0.0.5', port: 26379 }],
+};
+
+beforeEach(() => {
+  sentinels.length = 0;
+});
+
+it('picks the sentinel store for sentinel root nodes', () => {
+  const client = new MRCClient({}, sentinelConfig);
+  expect(client.store).toBeInstanceOf(RedisSentinelStore);
+  // the legacy accessors only expose plain Redis clients
+  expect(client.redisClient).toBeUndefined();
+});
+
+it('sends commands to the master of the sentinel client', async () => {
+  const store = new RedisSentinelStore(sentinelConfig, { minReconnectDelay: 50 });
+  await store.connect();
+  expect(sentinels).toHaveLength(1);
+  const [sentinel] = sentinels;
+  expect(sentinel.options).toMatchObject(sentinelConfig);
+  expect(sentinel.options.nodeClientOptions.socket.reconnectStrategy).toBeTypeOf('function');
+  expect(store.isReady).toBe(true);
+
+  expect(await store.get('key')).toStrictEqual(Buffer.from('rows'));
+  expect(await store.set('key', 'rows', 60)).toBe(true);
+  expect(sentinel.set).toHaveBeenCalledWith('key', 'rows', { EX: 60 });
+  await store.publish('mrc:invalidate', 'message');
+  expect(sentinel.publish).toHaveBeenCalledWith('mrc:invalidate', 'message');
+});
+
+it('subscribes through the sentinel client', async () => {
+  const store = new RedisSentinelStore(sentinelConfig);
+  await store.connect();
+  const listener = () => {};
+  await store.subscribe('a', listener);
+  await store.subscribe('b', listener);
+  await store.unsubscribe('a', listener);
+
+  // no second sentinel client is opened for the subscriptions
+  expect(sentinels).toHaveLength(1);
+  expect(sentinels[0].subscribe).toHaveBeenCalledWith('a', listener);
+  expect(sentinels[0].subscribe).toHaveBeenCalledWith('b', listener);
+  expect(sentinels[0].unsubscribe).toHaveBeenCalledWith('a', listener);
+});
+
+it('closes the sentinel client, or stops it while it connects', async () => {
+  const store = new RedisSentinelStore(sentinelConfig);
+  await store.connect();
+  await store.close();
+  expect(sentinels[0].close).toHaveBeenCalled();
+  expect(store.isOpen).toBe(false);
+  expect(() => store.get('key')).toThrow('Redis client is not connected');
+
+  sentinels.length = 0;
+  const connecting = new RedisSentinelStore(sentinelConfig);
+  await connecting.connect();
+  sentinels[0].isReady = false;
+  await connecting.close();
+  expect(sentinels[0].close).not.toHaveBeenCalled();
+  expect(sentinels[0].destroy).toHaveBeenCalled();
+});
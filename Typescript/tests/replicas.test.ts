@@ -0,0 +1,102 @@
+import { MemoryStore, MRCClient, MRCServer } from '../src';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+
+const query = 'SELECT * FROM users WHERE id = ?';
+const paramNames = ['UserId'];
+
+const executor = (name: string) => ({
+  placeholder: () => '?',
+  query: vi.fn(async (): Promise<any> => [{ from: name }]),
+  getConnection: vi.fn(async () => ({
+    query: vi.fn(async () => ({ affectedRows: 1 })),
+    beginTransaction: vi.fn(),
+    commit: vi.fn(),
+    rollback: vi.fn(),
+    release: vi.fn(),
+  })),
+});
+
+let store: MemoryStore;
+let primary: ReturnType<typeof executor>;
+let a: ReturnType<typeof executor>;
+let b: ReturnType<typeof executor>;
+let client: MRCClient;
+
+const read = (id: number, session?: string) =>
+  client.queryWithCache(query, [id], paramNames, 60, { session });
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  store = new MemoryStore();
+  primary = executor('primary');
+  [a, b] = [executor('a'), executor('b')];
+  client = new MRCClient(primary, store, {
+    replicas: { nodes: [a, b], readYourWrites: 1000, retryAfter: 5000 },
+  });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+it('reads misses from the replicas in turn', async () => {
+  expect(await read(1)).toStrictEqual([{ from: 'a' }]);
+  expect(await read(2)).toStrictEqual([{ from: 'b' }]);
+  expect(await read(3)).toStrictEqual([{ from: 'a' }]);
+  // hits do not reach any database
+  expect(await read(1)).toStrictEqual([{ from: 'a' }]);
+  expect(primary.query).not.toHaveBeenCalled();
+});
+
+it('sends only the writing session to the primary', async () => {
+  primary.query.mockResolvedValueOnce({ affectedRows: 1 });
+  await client.execute('UPDATE users SET name = ? WHERE id = ?', ['x', 3], {
+    session: 's1',
+  });
+  expect(await read(3, 's1')).toStrictEqual([{ from: 'primary' }]);
+  expect(await read(4, 's2')).toStrictEqual([{ from: 'a' }]);
+  expect(await read(5)).toStrictEqual([{ from: 'b' }]);
+
+  // until the window is over
+  vi.advanceTimersByTime(1000);
+  expect(await read(6, 's1')).toStrictEqual([{ from: 'a' }]);
+});
+
+it('pins the session of a committed transaction', async () => {
+  await client.transaction(tx =>
+    tx.execute('UPDATE users SET name = ? WHERE id = ?', ['x', 3], { session: 's1' })
+  );
+  expect(await read(3, 's1')).toStrictEqual([{ from: 'primary' }]);
+  expect(await read(4, 's2')).toStrictEqual([{ from: 'a' }]);
+});
+
+it('keeps reading from replicas after writes without a session', async () => {
+  primary.query.mockResolvedValueOnce({ affectedRows: 1 });
+  await client.execute('UPDATE users SET name = ? WHERE id = ?', ['x', 3]);
+  expect(await read(3, 's1')).toStrictEqual([{ from: 'a' }]);
+  expect(await read(4)).toStrictEqual([{ from: 'b' }]);
+});
+
+it('keeps reading from replicas after invalidations from other processes', async () => {
+  const events: unknown[] = [];
+  await client.onInvalidate({}, event => {
+    events.push(event);
+  });
+  await new MRCServer(store).dropOutdatedCache(paramNames, [3]);
+  await vi.waitFor(() => expect(events).toHaveLength(1));
+
+  expect(await read(3, 's1')).toStrictEqual([{ from: 'a' }]);
+  expect(await read(4)).toStrictEqual([{ from: 'b' }]);
+});
+
+it('skips a failing replica until it is retried', async () => {
+  const report = vi.spyOn(console, 'log').mockImplementation(() => {});
+  a.query.mockRejectedValueOnce(new Error('lost connection'));
+  expect(await read(1)).toStrictEqual([{ from: 'primary' }]);
+  expect(report).toHaveBeenCalledWith('Replica Error', expect.any(Error));
+  expect(await read(2)).toStrictEqual([{ from: 'b' }]);
+  expect(await read(3)).toStrictEqual([{ from: 'b' }]);
+  vi.advanceTimersByTime(5000);
+  expect(await read(4)).toStrictEqual([{ from: 'a' }]);
+  report.mockRestore();
+});
@@ -0,0 +1,83 @@
+import { MemoryStore, MRCClient, SQLiteExecutor } from '../src';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+let statements: string[];
+let db: any;
+
+// a database handle shaped like `better-sqlite3` with `safeIntegers`: integers are
+// read as BigInt and statements report whether they return rows
+beforeEach(() => {
+  statements = [];
+  db = {
+    prepare: (sql: string) => {
+      statements.push(sql);
+      return {
+        reader: /^\s*select|returning/i.test(sql),
+        all: () => [
+          { id: 1n, name: 'a', price: 1.5 },
+          { id: 9007199254740993n, name: 'b', price: null },
+        ],
+        run: () => ({ changes: 1, lastInsertRowid: 3n }),
+      };
+    },
+    close: vi.fn(),
+  };
+});
+
+it('returns integers read as BigInt by the bigint policy', async () => {
+  expect(await new SQLiteExecutor(db).query('SELECT * FROM users')).toStrictEqual([
+    { id: '1', name: 'a', price: 1.5 },
+    { id: '9007199254740993', name: 'b', price: null },
+  ]);
+  const executor = new SQLiteExecutor(db, { normalize: { bigint: 'safe' } });
+  expect(await executor.query('SELECT * FROM users')).toStrictEqual([
+    { id: 1, name: 'a', price: 1.5 },
+    { id: '9007199254740993', name: 'b', price: null },
+  ]);
+});
+
+it('runs statements and reports their changes', async () => {
+  const client = new MRCClient(new SQLiteExecutor(db), new MemoryStore());
+  expect(
+    await client.execute('INSERT INTO users (name) VALUES (:name)', { name: 'b' })
+  ).toStrictEqual({ affectedRows: 1, insertId: 3n });
+  // statements with RETURNING give rows
+  const returning = 'INSERT INTO users (name) VALUES (?) RETURNING id';
+  expect(await client.queryToPromise(returning, ['c'])).toHaveLength(2);
+  expect(statements).toStrictEqual([
+    'INSERT INTO users (name) VALUES (?)',
+    'INSERT INTO users (name) VALUES (?) RETURNING id',
+  ]);
+});
+
+it('tells readers from the statement with drivers that do not report it', async () => {
+  // `node:sqlite` statements have no reader flag
+  const prepare = db.prepare;
+  db.prepare = (sql: string) => ({ ...prepare(sql), reader: undefined });
+  const executor = new SQLiteExecutor(db);
+  expect(await executor.query('WITH t AS (SELECT 1) SELECT * FROM t')).toHaveLength(2);
+  expect(await executor.query('DELETE FROM users')).toStrictEqual({
+    affectedRows: 1,
+    insertId: 3n,
+  });
+});
+
+it('runs other queries after the running transaction', async () => {
+  const executor = new SQLiteExecutor(db);
+  const connection = await executor.getConnection();
+  await connection.beginTransaction();
+  const read = executor.query('SELECT * FROM users');
+  const closing = executor.close();
+  await connection.query('UPDATE users SET name = ?', ['c']);
+  await connection.rollback();
+  connection.release();
+  await read;
+  await closing;
+  expect(statements).toStrictEqual([
+    'BEGIN',
+    'UPDATE users SET name = ?',
+    'ROLLBACK',
+    'SELECT * FROM users',
+  ]);
+  expect(db.close).toHaveBeenCalledTimes(1);
+});
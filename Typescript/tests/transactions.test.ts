@@ -0,0 +1,51 @@
+import { MemoryStore, MRCClient } from '../src';
+import { beforeEach, expect, it, vi } from 'vitest';
+
+const query = 'SELECT * FROM users WHERE id = ?';
+
+let connection: any;
+let client: MRCClient;
+
+beforeEach(() => {
+  connection = {
+    query: vi.fn(async () => ({ affectedRows: 1 })),
+    beginTransaction: vi.fn(async () => {}),
+    commit: vi.fn(async () => {}),
+    rollback: vi.fn(async () => {}),
+    release: vi.fn(),
+  };
+  const executor = {
+    placeholder: () => '?',
+    query: vi.fn(async () => [{ id: 1 }]),
+    getConnection: vi.fn(async () => connection),
+  };
+  client = new MRCClient(executor, new MemoryStore());
+});
+
+const update = () =>
+  client.transaction(tx =>
+    tx.execute('UPDATE users SET name = ? WHERE id = ?', ['x', 1], {
+      invalidate: { UserId: 1 },
+    })
+  );
+
+it('throws the commit error when the rollback fails too', async () => {
+  const errors: unknown[] = [];
+  client.on('error', event => errors.push(event.error));
+  connection.commit.mockRejectedValueOnce(new Error('deadlock'));
+  connection.rollback.mockRejectedValueOnce(new Error('connection lost'));
+
+  await expect(update()).rejects.toThrow('deadlock');
+  expect(errors).toStrictEqual([new Error('connection lost')]);
+  expect(connection.release).toHaveBeenCalled();
+});
+
+it('keeps the entries of a transaction that failed to commit', async () => {
+  await client.queryWithCache(query, [1], ['UserId'], 60);
+  connection.commit.mockRejectedValueOnce(new Error('deadlock'));
+  await expect(update()).rejects.toThrow('deadlock');
+  expect(await client.readFromCache(query, [1], ['UserId'])).toStrictEqual([{ id: 1 }]);
+
+  await update();
+  expect(await client.readFromCache(query, [1], ['UserId'])).toBeNull();
+});
@@ -0,0 +1,53 @@
+import { MemoryStore, MRCClient } from '../src';
+import RefreshScheduler from '../src/warming';
+import { afterEach, beforeEach, expect, it, vi } from 'vitest';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+it('starts each run an interval after the start of the previous one', async () => {
+  const starts: number[] = [];
+  const scheduler = new RefreshScheduler(() => {});
+  scheduler.every(1000, async () => {
+    starts.push(Date.now());
+    // the third run takes longer than the interval
+    await sleep(starts.length === 3 ? 1500 : 300);
+  });
+  await vi.advanceTimersByTimeAsync(4000);
+  scheduler.stop();
+  const first = starts[0];
+  // a timer of 0 ms fires after 1 ms
+  expect(starts.map(start => start - first)).toStrictEqual([0, 1000, 2000, 3501]);
+});
+
+it('reports failed runs and keeps repeating', async () => {
+  const errors: unknown[] = [];
+  const scheduler = new RefreshScheduler(err => errors.push(err));
+  const task = vi.fn().mockRejectedValueOnce(new Error('lost connection'));
+  scheduler.every(1000, task);
+  await vi.advanceTimersByTimeAsync(1000);
+  expect(errors).toStrictEqual([new Error('lost connection')]);
+  expect(task).toHaveBeenCalledTimes(2);
+  scheduler.stop();
+  await vi.advanceTimersByTimeAsync(1000);
+  expect(task).toHaveBeenCalledTimes(2);
+});
+
+it('reports refresh failures as cache warming errors', async () => {
+  const client = new MRCClient({}, new MemoryStore(), { ttlJitter: 0 });
+  const errors: unknown[] = [];
+  client.on('error', event => errors.push(event.error));
+  // a failing error listener makes the refresh itself fail
+  vi.spyOn(client, 'warm').mockRejectedValueOnce(new Error('listener failed'));
+  const stop = client.refreshAhead([{ sql: 'SELECT 1', ttl: 10 }], { lead: 1 });
+  await vi.advanceTimersByTimeAsync(0);
+  expect(errors).toStrictEqual([new Error('listener failed')]);
+  stop();
+});